@@ -0,0 +1,54 @@
+import type { languages } from 'monaco-editor-core'
+import { getCodeActions } from './get-code-actions'
+
+/**
+ * Creates a Monaco code action provider to move component props between the attribute list and the YAML block.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createCodeActionProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.registerCodeActionProvider('mdc', createCodeActionProvider())
+ * ```
+ *
+ * @returns A code action provider to register for the MDC language
+ */
+export function createCodeActionProvider(): languages.CodeActionProvider {
+  return {
+    provideCodeActions: (model, range) => {
+      const actions = getCodeActions(
+        {
+          getLine: (lineNumber: number) => model.getLineContent(lineNumber + 1), // Monaco uses 1-based line numbers
+          lineCount: model.getLineCount(),
+        },
+        // Convert to 0-based
+        { line: range.startLineNumber - 1, column: range.startColumn - 1 },
+      )
+
+      return {
+        actions: actions.map(action => ({
+          title: action.title,
+          kind: action.kind,
+          edit: {
+            edits: action.edits.map(edit => ({
+              resource: model.uri,
+              versionId: model.getVersionId(),
+              textEdit: {
+                // Convert 0-based to 1-based
+                range: {
+                  startLineNumber: edit.range.startLine + 1,
+                  startColumn: edit.range.startColumn + 1,
+                  endLineNumber: edit.range.endLine + 1,
+                  endColumn: edit.range.endColumn + 1,
+                },
+                text: edit.newText,
+              },
+            })),
+          },
+        })),
+        dispose: () => {},
+      }
+    },
+  }
+}
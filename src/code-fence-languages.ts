@@ -0,0 +1,54 @@
+import type { languages } from 'monaco-editor-core'
+
+/**
+ * Maps code fence languages to Monaco language ids, e.g. ```` ```sh ```` is highlighted with the `shell` language.
+ *
+ * Languages missing from the map are passed to Monaco as is, which also resolves the aliases and mime types
+ * of the registered languages, e.g. `ts` for `typescript`.
+ */
+export const codeFenceLanguageAliases: Record<string, string> = {
+  'vue': 'html',
+  'vue-html': 'html',
+  'svelte': 'html',
+  'js': 'javascript',
+  'mjs': 'javascript',
+  'cjs': 'javascript',
+  'jsx': 'javascript',
+  'ts': 'typescript',
+  'mts': 'typescript',
+  'cts': 'typescript',
+  'tsx': 'typescript',
+  'jsonc': 'json',
+  'json5': 'json',
+  'yml': 'yaml',
+  'md': 'markdown',
+  'sh': 'shell',
+  'bash': 'shell',
+  'zsh': 'shell',
+  'shellscript': 'shell',
+  'console': 'shell',
+  'ps1': 'powershell',
+  'py': 'python',
+  'rb': 'ruby',
+  'rs': 'rust',
+  'docker': 'dockerfile',
+  'toml': 'ini',
+}
+
+/**
+ * Creates the Monarch `cases` embedding code with the language of its alias, in fenced code blocks and inline code.
+ * The cases match the language kept as the second part of the tokenizer state, e.g. `codeblockInfo.<language>.<fence>`.
+ *
+ * @param {Record<string, string>} aliases - The code languages mapped to Monaco language ids.
+ * @param {languages.IExpandedMonarchLanguageAction} action - The action entering the embedded language, without `nextEmbedded`.
+ * @returns {Record<string, languages.IMonarchLanguageAction>} - The cases keyed by the language guard, e.g. `$S2==sh`.
+ */
+export function createCodeLanguageCases(aliases: Record<string, string>, action: languages.IExpandedMonarchLanguageAction): Record<string, languages.IMonarchLanguageAction> {
+  const cases = Object.keys(aliases).reduce<Record<string, languages.IMonarchLanguageAction>>((cases, alias) => {
+    cases[`$S2==${alias}`] = { ...action, nextEmbedded: aliases[alias] }
+    return cases
+  }, {})
+  // Languages without an alias are passed to Monaco as is, the default case is evaluated last
+  cases['@default'] = { ...action, nextEmbedded: '$S2' }
+  return cases
+}
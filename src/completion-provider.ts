@@ -0,0 +1,81 @@
+import type * as Monaco from 'monaco-editor-core'
+import type { languages } from 'monaco-editor-core'
+import type { MdcComponentRegistry } from './component-registry'
+import { getCompletionItems, type MdcCompletionItem } from './get-completion-items'
+
+/**
+ * Options for the completion item provider.
+ */
+export interface CompletionProviderOptions {
+  /** The components available to authors. */
+  components: MdcComponentRegistry
+}
+
+/**
+ * Creates a Monaco completion item provider for MDC component names, slots and props.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createCompletionItemProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.registerCompletionItemProvider('mdc', createCompletionItemProvider(monaco, {
+ *   components: [
+ *     {
+ *       name: 'alert',
+ *       description: 'Highlight important information',
+ *       props: [{ name: 'type', values: ['info', 'warning'] }],
+ *       slots: [{ name: 'title' }],
+ *     },
+ *   ],
+ * }))
+ * ```
+ *
+ * @param monaco - The Monaco namespace, used to resolve completion item kinds
+ * @param options - The completion provider options
+ * @returns A completion item provider to register for the MDC language
+ */
+export function createCompletionItemProvider(
+  monaco: typeof Monaco,
+  options: CompletionProviderOptions,
+): languages.CompletionItemProvider {
+  const kinds: Record<MdcCompletionItem['kind'], languages.CompletionItemKind> = {
+    component: monaco.languages.CompletionItemKind.Module,
+    slot: monaco.languages.CompletionItemKind.Field,
+    prop: monaco.languages.CompletionItemKind.Property,
+    value: monaco.languages.CompletionItemKind.Value,
+  }
+
+  return {
+    triggerCharacters: [':', '#', '{', '=', '"'],
+    provideCompletionItems: (model, position) => {
+      const items = getCompletionItems(
+        {
+          getLine: (lineNumber: number) => model.getLineContent(lineNumber + 1), // Monaco uses 1-based line numbers
+          lineCount: model.getLineCount(),
+        },
+        // Convert to 0-based
+        { line: position.lineNumber - 1, column: position.column - 1 },
+        options.components,
+      )
+
+      return {
+        suggestions: items.map(item => ({
+          label: item.label,
+          kind: kinds[item.kind],
+          insertText: item.insertText,
+          insertTextRules: item.isSnippet ? monaco.languages.CompletionItemInsertTextRule.InsertAsSnippet : undefined,
+          detail: item.detail,
+          documentation: item.documentation ? { value: item.documentation } : undefined,
+          // Convert 0-based to 1-based
+          range: {
+            startLineNumber: item.range.startLine + 1,
+            startColumn: item.range.startColumn + 1,
+            endLineNumber: item.range.endLine + 1,
+            endColumn: item.range.endColumn + 1,
+          },
+        })),
+      }
+    },
+  }
+}
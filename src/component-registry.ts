@@ -0,0 +1,126 @@
+/**
+ * Describes a prop accepted by an MDC component.
+ */
+export interface MdcPropDefinition {
+  /** The prop name as written in MDC, e.g. `title` or `show-icon`. */
+  name: string
+  /** The prop type, used to suggest values. */
+  type?: 'string' | 'number' | 'boolean' | 'array' | 'object'
+  /** A short description of the prop. */
+  description?: string
+  /** The default value, shown in the documentation. */
+  default?: string | number | boolean | null
+  /** The allowed values of an enum prop. */
+  values?: string[]
+  /** Whether the prop is required. */
+  required?: boolean
+}
+
+/**
+ * Describes a named slot of an MDC component.
+ */
+export interface MdcSlotDefinition {
+  /** The slot name as written in MDC, e.g. `title` for `#title`. */
+  name: string
+  /** A short description of the slot. */
+  description?: string
+}
+
+/**
+ * Describes an MDC component available to authors.
+ */
+export interface MdcComponentDefinition {
+  /** The component name, e.g. `alert` or `ProseAlert`. PascalCase names also match their kebab-case form. */
+  name: string
+  /** A short description of the component. */
+  description?: string
+  /** The props accepted by the component. */
+  props?: MdcPropDefinition[]
+  /** The named slots of the component. */
+  slots?: MdcSlotDefinition[]
+}
+
+/**
+ * A list of the MDC components available to authors.
+ */
+export type MdcComponentRegistry = MdcComponentDefinition[]
+
+/**
+ * Converts a component name to kebab-case, e.g. `ProseAlert` to `prose-alert`.
+ *
+ * @param {string} name - The component name.
+ * @returns {string} - The kebab-case name.
+ */
+export function toKebabCase(name: string): string {
+  return name
+    .replace(/([a-z\d])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .replace(/_/g, '-')
+    .toLowerCase()
+}
+
+/**
+ * Finds the definition of a component by the name used in the document.
+ *
+ * @param {MdcComponentRegistry} registry - The component registry.
+ * @param {string} name - The component name as written in the document, e.g. `prose-alert`.
+ * @returns {MdcComponentDefinition | undefined} - The matching definition, if any.
+ */
+export function findComponentDefinition(registry: MdcComponentRegistry, name: string): MdcComponentDefinition | undefined {
+  const kebabName = toKebabCase(name)
+  return registry.find(component => component.name === name || toKebabCase(component.name) === kebabName)
+}
+
+/**
+ * Returns a short description of a prop type, e.g. `"info" | "warning"` or `boolean`.
+ *
+ * @param {MdcPropDefinition} prop - The prop definition.
+ * @returns {string} - The prop type description.
+ */
+export function describePropType(prop: MdcPropDefinition): string {
+  if (prop.values?.length) {
+    return prop.values.map(value => `"${value}"`).join(' | ')
+  }
+  return prop.type || 'any'
+}
+
+/**
+ * Returns the markdown documentation of a prop, including its type, default value and description.
+ *
+ * @param {MdcPropDefinition} prop - The prop definition.
+ * @returns {string} - The markdown documentation.
+ */
+export function describeProp(prop: MdcPropDefinition): string {
+  const details = [`\`${describePropType(prop)}\``]
+  if (prop.default !== undefined) {
+    details.push(`default: \`${String(prop.default)}\``)
+  }
+  if (prop.required) {
+    details.push('required')
+  }
+  return [details.join(' · '), prop.description].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Returns the markdown documentation of a component, including its description, props and slots.
+ *
+ * @param {MdcComponentDefinition} component - The component definition.
+ * @returns {string} - The markdown documentation.
+ */
+export function describeComponent(component: MdcComponentDefinition): string {
+  const sections = [`**${toKebabCase(component.name)}**`]
+  if (component.description) {
+    sections.push(component.description)
+  }
+  if (component.props?.length) {
+    sections.push(['Props:', ...component.props.map((prop) => {
+      const defaultValue = prop.default !== undefined ? ` · default: \`${String(prop.default)}\`` : ''
+      const description = prop.description ? ` — ${prop.description}` : ''
+      return `- \`${prop.name}\`: \`${describePropType(prop)}\`${defaultValue}${description}`
+    })].join('\n'))
+  }
+  if (component.slots?.length) {
+    sections.push(['Slots:', ...component.slots.map(slot => `- \`#${slot.name}\`${slot.description ? ` — ${slot.description}` : ''}`)].join('\n'))
+  }
+  return sections.join('\n\n')
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import { convertPropsToYaml, convertPropsToInline } from './convert-component-props'
+import { formatter } from './formatter'
+import { createDocument, applyEdits } from './test-utils'
+
+/**
+ * Returns the content after moving the props of the component opened on the line to its YAML block.
+ */
+function toYaml(content: string, line = 0): string {
+  return applyEdits(content, convertPropsToYaml(createDocument(content), line))
+}
+
+/**
+ * Returns the content after moving the props of the component opened on the line to its attribute list.
+ */
+function toInline(content: string, line = 0): string {
+  return applyEdits(content, convertPropsToInline(createDocument(content), line))
+}
+
+describe('convertPropsToYaml', () => {
+  it('moves the props to a new YAML block, keeping quotes, booleans and bound values', () => {
+    const content = '::card{#main title="Hello" icon=\'i-mdi\' to=/docs disabled :items=\'["a", "b"]\' .wide}\nContent\n::'
+
+    expect(toYaml(content)).toBe([
+      '::card{#main .wide}',
+      '---',
+      'title: "Hello"',
+      'icon: \'i-mdi\'',
+      'to: /docs',
+      'disabled: true',
+      ':items: \'["a", "b"]\'',
+      '---',
+      'Content',
+      '::',
+    ].join('\n'))
+  })
+
+  it('quotes unquoted values that YAML reads as another type', () => {
+    expect(toYaml('::card{count=3 flag=false path=C:\\docs}\n::')).toBe('::card\n---\ncount: "3"\nflag: "false"\npath: "C:\\\\docs"\n---\n::')
+  })
+
+  it('uses the indentation of the component and appends to an existing YAML block', () => {
+    const content = '::outer\n  ::card{title="Hello"}\n  ---\n  icon: i-mdi\n  ---\n  ::\n::'
+
+    expect(toYaml(content, 1)).toBe('::outer\n  ::card\n  ---\n  icon: i-mdi\n  title: "Hello"\n  ---\n  ::\n::')
+    expect(toYaml('::outer\n  ::card{title="Hello"}\n  ::\n::', 1)).toBe('::outer\n  ::card\n  ---\n  title: "Hello"\n  ---\n  ::\n::')
+  })
+
+  it('formats the YAML block the same way as the formatter', () => {
+    const converted = toYaml('::outer\n  :::card{title="Hello" :open="true"}\n  Content\n  :::\n::\n', 1)
+
+    expect(formatter(converted, { tabSize: 2 })).toBe(converted)
+  })
+
+  it('returns no edits without props or when a prop is already in the YAML block', () => {
+    expect(convertPropsToYaml(createDocument('::card{#main .wide}\n::'), 0)).toEqual([])
+    expect(convertPropsToYaml(createDocument('::card{title="Hello"}\n---\n:title: "Hi"\n---\n::'), 0)).toEqual([])
+    expect(convertPropsToYaml(createDocument('Text\n::card{title="Hello"}\n::'), 0)).toEqual([])
+  })
+
+  it('returns no edits when text follows the attribute list', () => {
+    expect(convertPropsToYaml(createDocument('::card{title="Hello"} Text\nContent\n::'), 0)).toEqual([])
+    expect(convertPropsToYaml(createDocument('::card{title="Hello"} Text\n---\nicon: i-mdi\n---\n::'), 0)).toEqual([])
+  })
+})
+
+describe('convertPropsToInline', () => {
+  it('moves the props to the attribute list, keeping quotes, booleans and bound values', () => {
+    const content = [
+      '::card{#main}',
+      '---',
+      'title: "Hello"',
+      'icon: \'i-mdi\'',
+      'to: /docs',
+      'disabled: true',
+      ':items: \'["a", "b"]\'',
+      '---',
+      'Content',
+      '::',
+    ].join('\n')
+
+    expect(toInline(content)).toBe('::card{#main title="Hello" icon=\'i-mdi\' to=/docs disabled :items=\'["a", "b"]\'}\nContent\n::')
+  })
+
+  it('binds numbers, false and null, and quotes strings with spaces', () => {
+    expect(toInline('::card\n---\ncount: 3\nopen: false\nlabel: Hello World\nquote: Say "hi"\n---\n::'))
+      .toBe('::card{:count=3 :open=false label="Hello World" quote=\'Say "hi"\'}\n::')
+  })
+
+  it('round-trips the props', () => {
+    const content = '  ::card{title="Hello" count="3" to=/docs disabled :items=\'["a"]\'}\n  ::'
+
+    expect(toInline(toYaml(content))).toBe(content)
+  })
+
+  it('returns no edits for YAML that cannot be written inline', () => {
+    expect(convertPropsToInline(createDocument('::card\n---\nimage:\n  src: /a.png\n---\n::'), 0)).toEqual([])
+    expect(convertPropsToInline(createDocument('::card\n---\ndescription: |\n  Text\n---\n::'), 0)).toEqual([])
+    expect(convertPropsToInline(createDocument('::card\n---\n# comment\ntitle: Hello\n---\n::'), 0)).toEqual([])
+    expect(convertPropsToInline(createDocument('::card\n---\ntags: [a, b]\n---\n::'), 0)).toEqual([])
+    expect(convertPropsToInline(createDocument('::card{title="Hi"}\n---\ntitle: Hello\n---\n::'), 0)).toEqual([])
+    expect(convertPropsToInline(createDocument('::card\n---\ntitle: Hello\n::'), 0)).toEqual([])
+    expect(convertPropsToInline(createDocument('::card{#main} Text\n---\ntitle: Hello\n---\n::'), 0)).toEqual([])
+  })
+})
@@ -0,0 +1,281 @@
+import type { TextDocument } from './find-matching-brackets'
+import type { MdcTextEdit } from './formatting-edits'
+import { ATTRIBUTE_REGEX } from './expressions'
+import { parseMdcStructure, walkMdcNodes, type MdcComponentNode, type MdcComponentDataNode } from './parse-mdc-structure'
+
+/**
+ * A prop of a block component, with its value as written.
+ */
+interface ComponentProp {
+  /** The prop key, including the `:` of bound props, e.g. `:items`. */
+  key: string
+  /** The quoted or unquoted value, or `null` for boolean props, e.g. `disabled`. */
+  value: string | null
+}
+
+/**
+ * The parsed attribute list of a block component opening marker.
+ */
+interface InlineAttributes {
+  /** The column of the opening `{`. */
+  startColumn: number
+  /** The column after the closing `}`. */
+  endColumn: number
+  /** The ids and classes, e.g. `#main` and `.primary`, which stay in the attribute list. */
+  selectors: string[]
+  props: ComponentProp[]
+}
+
+/* Matches the attribute list of a block component opening marker, e.g. `{title="Hello" :open="true"}` */
+const OPENING_ATTRIBUTES_REGEX = /^(\s*:{2,}[\w-]+)(\{(?:"[^"]*"|'[^']*'|[^"'}])*\})?/
+/* Matches a scalar YAML prop, e.g. `title: "Hello"` or `:items: '["a", "b"]'` */
+const YAML_PROP_REGEX = /^(\s*)(:?[\w-]+)\s*:\s+(\S.*)$/
+/* Matches the key of a YAML prop without the `:` of bound props, e.g. `items` in `:items: '[]'` */
+const YAML_KEY_REGEX = /^\s*:?([\w-]+)\s*:/
+/* Matches YAML values that are read as booleans, numbers or null rather than strings */
+const YAML_NON_STRING_REGEX = /^(?:true|false|yes|no|on|off|null|~|[-+]?(?:\d|\.\d).*|\.inf|\.nan)$/i
+/* Matches YAML values that are also JSON literals */
+const JSON_LITERAL_REGEX = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:e[-+]?\d+)?)$/
+/* Matches unquoted YAML strings that keep their value when written unquoted in an attribute list, and the other way around */
+const PLAIN_VALUE_REGEX = /^[\w/][\w/.@+-]*$/
+
+/**
+ * Returns the component opened on a line, if any.
+ */
+function findComponent(document: TextDocument, line: number): MdcComponentNode | null {
+  let component: MdcComponentNode | null = null
+  walkMdcNodes(parseMdcStructure(document).children, (node) => {
+    if (node.type === 'component' && node.openingRange.startLine === line) {
+      component = node
+    }
+  })
+  return component
+}
+
+/**
+ * Returns the YAML block directly following the opening marker of a component, if any.
+ */
+function getComponentData(component: MdcComponentNode): MdcComponentDataNode | null {
+  const first = component.children[0]
+  return first?.type === 'componentData' && first.range.startLine === component.openingRange.startLine + 1 ? first : null
+}
+
+/**
+ * Parses the attribute list of an opening marker, or returns `null` if it cannot be parsed or is followed by
+ * text, which would not stay on the opening marker line after the conversion.
+ */
+function parseInlineAttributes(lineContent: string): InlineAttributes | null {
+  const match = lineContent.match(OPENING_ATTRIBUTES_REGEX)
+  if (!match) {
+    return null
+  }
+  const startColumn = match[1].length
+  if (!match[2]) {
+    return { startColumn, endColumn: startColumn, selectors: [], props: [] }
+  }
+
+  const attributes: InlineAttributes = { startColumn, endColumn: startColumn + match[2].length, selectors: [], props: [] }
+  if (lineContent.slice(attributes.endColumn).trim() !== '') {
+    return null
+  }
+  let rest = match[2].slice(1, -1).trim()
+  while (rest !== '') {
+    const attribute = rest.match(ATTRIBUTE_REGEX)
+    if (!attribute) {
+      return null
+    }
+    if (attribute[1]) {
+      attributes.selectors.push(attribute[1])
+    }
+    else {
+      attributes.props.push({ key: attribute[2], value: attribute[3] ?? null })
+    }
+    rest = rest.slice(attribute[0].length).trimStart()
+  }
+  return attributes
+}
+
+/**
+ * Returns the YAML value of an attribute value, keeping its quotes and type.
+ */
+function toYamlValue(prop: ComponentProp): string {
+  if (prop.value === null) {
+    return 'true'
+  }
+  if (prop.value.startsWith('"')) {
+    // Backslashes are escape characters in double quoted YAML strings only
+    return JSON.stringify(prop.value.slice(1, -1))
+  }
+  if (prop.value.startsWith('\'')) {
+    return prop.value
+  }
+  // Unquoted attribute values are strings, YAML would read `3` or `false` as a number or boolean
+  return PLAIN_VALUE_REGEX.test(prop.value) && !YAML_NON_STRING_REGEX.test(prop.value) ? prop.value : JSON.stringify(prop.value)
+}
+
+/**
+ * Returns the attribute of a YAML prop, keeping its quotes and type, or `null` if the value cannot be written inline.
+ */
+function toAttribute(key: string, yamlValue: string): string | null {
+  let value: string
+  let quote = '"'
+  if (yamlValue.startsWith('"')) {
+    try {
+      value = JSON.parse(yamlValue)
+    }
+    catch {
+      return null
+    }
+  }
+  else if (yamlValue.startsWith('\'')) {
+    if (!/^'(?:[^']|'')*'$/.test(yamlValue)) {
+      return null
+    }
+    value = yamlValue.slice(1, -1).replace(/''/g, '\'')
+    quote = '\''
+  }
+  // Comments, multiline strings, flow collections, anchors, aliases and tags
+  else if (/^[|>[\]{}&*!%@#`,]/.test(yamlValue) || yamlValue.includes(' #')) {
+    return null
+  }
+  else if (JSON_LITERAL_REGEX.test(yamlValue)) {
+    // Booleans, numbers and null are bound to keep their type, `true` is written as a boolean prop
+    return yamlValue === 'true' && !key.startsWith(':') ? key : `:${key.replace(/^:/, '')}=${yamlValue}`
+  }
+  else if (YAML_NON_STRING_REGEX.test(yamlValue)) {
+    return null
+  }
+  else if (PLAIN_VALUE_REGEX.test(yamlValue)) {
+    return `${key}=${yamlValue}`
+  }
+  else {
+    value = yamlValue
+  }
+
+  // Attribute values cannot escape quotes, use the other quote when the value contains one
+  if (value.includes(quote)) {
+    quote = quote === '"' ? '\'' : '"'
+  }
+  return value.includes(quote) || value.includes('\n') ? null : `${key}=${quote}${value}${quote}`
+}
+
+/**
+ * Returns the attribute list of an opening marker, or an empty string without attributes.
+ */
+function formatAttributeList(attributes: string[]): string {
+  return attributes.length > 0 ? `{${attributes.join(' ')}}` : ''
+}
+
+/**
+ * Returns the edits moving the props of a block component attribute list into its YAML block, e.g.
+ * `::card{title="Hello" :open="true"}` to `title: "Hello"` and `:open: "true"` between `---` lines.
+ *
+ * - Quoted values keep their quotes, unquoted values are quoted when YAML would read them as another type.
+ * - Boolean props, e.g. `disabled`, are written as `disabled: true`.
+ * - Bound props keep their `:` prefix and their JSON value, e.g. `:items: '["a", "b"]'`.
+ * - Ids and classes stay in the attribute list.
+ * - The props are appended to an existing YAML block, with the indentation the formatter gives to YAML blocks.
+ *
+ * @param {TextDocument} document - The text document.
+ * @param {number} line - The zero-based line of the component opening marker.
+ * @returns {MdcTextEdit[]} - The edits with zero-based ranges, or no edits if there is nothing to convert or a prop is already in the YAML block.
+ */
+export function convertPropsToYaml(document: TextDocument, line: number): MdcTextEdit[] {
+  const component = findComponent(document, line)
+  const lineContent = document.getLine(line)
+  const attributes = component && parseInlineAttributes(lineContent)
+  if (!component || !attributes || attributes.props.length === 0) {
+    return []
+  }
+
+  const indent = ' '.repeat(component.indent)
+  const propLines = attributes.props.map(prop => `${indent}${prop.key}: ${toYamlValue(prop)}`)
+  const selectors = formatAttributeList(attributes.selectors)
+
+  const data = getComponentData(component)
+  if (!data) {
+    // A single edit from the attribute list, the YAML block is inserted after the end of the line
+    return [{
+      range: { startLine: line, startColumn: attributes.startColumn, endLine: line, endColumn: lineContent.length },
+      newText: [selectors, `${indent}---`, ...propLines, `${indent}---`].join('\n'),
+    }]
+  }
+
+  if (!data.closed) {
+    return []
+  }
+  const { endLine } = data.range
+  const existingKeys = new Set<string>()
+  for (let i = data.range.startLine + 1; i < endLine; i++) {
+    const key = document.getLine(i).match(YAML_KEY_REGEX)?.[1]
+    if (key) {
+      existingKeys.add(key)
+    }
+  }
+  if (attributes.props.some(prop => existingKeys.has(prop.key.replace(/^:/, '')))) {
+    return []
+  }
+  return [
+    {
+      range: { startLine: line, startColumn: attributes.startColumn, endLine: line, endColumn: attributes.endColumn },
+      newText: selectors,
+    },
+    {
+      range: { startLine: endLine, startColumn: 0, endLine: endLine, endColumn: 0 },
+      newText: `${propLines.join('\n')}\n`,
+    },
+  ]
+}
+
+/**
+ * Returns the edits moving the props of a block component YAML block into its attribute list, e.g.
+ * `title: "Hello"` and `:open: "true"` between `---` lines to `::card{title="Hello" :open="true"}`.
+ *
+ * Only YAML blocks with top-level scalar props are converted: nested objects, arrays, multiline strings
+ * and comments cannot be written in an attribute list. Quotes are kept when possible, `true` is written as
+ * a boolean prop, and other booleans, numbers and null are bound to keep their type, e.g. `:count=3`.
+ *
+ * @param {TextDocument} document - The text document.
+ * @param {number} line - The zero-based line of the component opening marker.
+ * @returns {MdcTextEdit[]} - The edits with zero-based ranges, or no edits if the YAML block cannot be converted.
+ */
+export function convertPropsToInline(document: TextDocument, line: number): MdcTextEdit[] {
+  const component = findComponent(document, line)
+  const data = component && getComponentData(component)
+  const attributes = data && parseInlineAttributes(document.getLine(line))
+  if (!component || !data || !data.closed || !attributes) {
+    return []
+  }
+
+  const existingKeys = new Set(attributes.props.map(prop => prop.key.replace(/^:/, '')))
+  const newAttributes: string[] = []
+  let propIndent: string | null = null
+  for (let i = data.range.startLine + 1; i < data.range.endLine; i++) {
+    const propLine = document.getLine(i)
+    if (propLine.trim() === '') {
+      continue
+    }
+    const match = propLine.match(YAML_PROP_REGEX)
+    if (!match || (propIndent !== null && match[1] !== propIndent) || existingKeys.has(match[2].replace(/^:/, ''))) {
+      return []
+    }
+    propIndent = match[1]
+    const attribute = toAttribute(match[2], match[3].trimEnd())
+    if (attribute === null) {
+      return []
+    }
+    newAttributes.push(attribute)
+  }
+
+  if (newAttributes.length === 0) {
+    return []
+  }
+
+  // A single edit from the attribute list to the end of the YAML block
+  const lineContent = document.getLine(line)
+  const existingAttributes = lineContent.slice(attributes.startColumn + 1, attributes.endColumn - 1).trim()
+  return [{
+    range: { startLine: line, startColumn: attributes.startColumn, endLine: data.range.endLine, endColumn: document.getLine(data.range.endLine).length },
+    newText: formatAttributeList(existingAttributes ? [existingAttributes, ...newAttributes] : newAttributes),
+  }]
+}
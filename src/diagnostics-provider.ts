@@ -0,0 +1,163 @@
+import type * as Monaco from 'monaco-editor-core'
+import type { editor, IDisposable } from 'monaco-editor-core'
+import { validateDocument, type MdcDiagnostic } from './validate-document'
+
+/**
+ * Options for customizing the diagnostics provider.
+ */
+export interface DiagnosticsProviderOptions {
+  /**
+   * The language id of the models to validate.
+   * @default 'mdc'
+   */
+  languageId?: string
+
+  /**
+   * The owner of the markers set on the models.
+   * @default 'mdc'
+   */
+  owner?: string
+
+  /**
+   * Delay in milliseconds between the last content change and validating the model.
+   * @default 300
+   */
+  debounce?: number
+}
+
+const DEFAULT_OPTIONS: Required<DiagnosticsProviderOptions> = {
+  languageId: 'mdc',
+  owner: 'mdc',
+  debounce: 300,
+}
+
+/**
+ * Converts an editor-agnostic diagnostic into a Monaco marker.
+ */
+function toMarkerData(monaco: typeof Monaco, diagnostic: MdcDiagnostic): editor.IMarkerData {
+  return {
+    code: diagnostic.code,
+    message: diagnostic.message,
+    severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning,
+    // Convert 0-based to 1-based
+    startLineNumber: diagnostic.range.startLine + 1,
+    startColumn: diagnostic.range.startColumn + 1,
+    endLineNumber: diagnostic.range.endLine + 1,
+    endColumn: diagnostic.range.endColumn + 1,
+  }
+}
+
+/**
+ * Registers a diagnostics provider for MDC models in Monaco Editor.
+ *
+ * Every model of the MDC language is validated with `validateDocument` when it is created and
+ * whenever its content changes, and the resulting problems are kept in sync via `editor.setModelMarkers`.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { registerDiagnosticsProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * const disposable = registerDiagnosticsProvider(monaco, {
+ *   languageId: 'mdc', // default
+ * })
+ *
+ * // Clean up when done
+ * disposable.dispose()
+ * ```
+ *
+ * @param monaco - The Monaco namespace, used to set the model markers
+ * @param options - Configuration options for the diagnostics provider
+ * @returns A disposable object that removes all listeners and markers
+ */
+export function registerDiagnosticsProvider(
+  monaco: typeof Monaco,
+  options?: DiagnosticsProviderOptions,
+): IDisposable {
+  const opts = { ...DEFAULT_OPTIONS, ...options }
+  const listeners = new Map<string, { content: IDisposable, timeout: ReturnType<typeof setTimeout> | null }>()
+
+  /**
+   * Validates a model and replaces its markers.
+   */
+  function validate(model: editor.ITextModel) {
+    if (model.isDisposed()) {
+      return
+    }
+
+    try {
+      const diagnostics = validateDocument({
+        getLine: (lineNumber: number) => model.getLineContent(lineNumber + 1), // Monaco uses 1-based line numbers
+        lineCount: model.getLineCount(),
+      })
+      monaco.editor.setModelMarkers(model, opts.owner, diagnostics.map(diagnostic => toMarkerData(monaco, diagnostic)))
+    }
+    catch (error) {
+      // Fail silently to avoid breaking the editor
+      console.warn('[MDC Diagnostics] Error validating document:', error)
+    }
+  }
+
+  /**
+   * Starts validating a model if it uses the MDC language.
+   */
+  function attach(model: editor.ITextModel) {
+    const key = model.uri.toString()
+    if (listeners.has(key) || model.getLanguageId() !== opts.languageId) {
+      return
+    }
+
+    const listener: { content: IDisposable, timeout: ReturnType<typeof setTimeout> | null } = {
+      content: model.onDidChangeContent(() => {
+        if (listener.timeout) {
+          clearTimeout(listener.timeout)
+        }
+        listener.timeout = setTimeout(() => {
+          listener.timeout = null
+          validate(model)
+        }, opts.debounce)
+      }),
+      timeout: null,
+    }
+    listeners.set(key, listener)
+    validate(model)
+  }
+
+  /**
+   * Stops validating a model and removes its markers.
+   */
+  function detach(model: editor.ITextModel) {
+    const key = model.uri.toString()
+    const listener = listeners.get(key)
+    if (!listener) {
+      return
+    }
+
+    listener.content.dispose()
+    if (listener.timeout) {
+      clearTimeout(listener.timeout)
+    }
+    listeners.delete(key)
+    monaco.editor.setModelMarkers(model, opts.owner, [])
+  }
+
+  monaco.editor.getModels().forEach(attach)
+
+  const disposables: IDisposable[] = [
+    monaco.editor.onDidCreateModel(attach),
+    monaco.editor.onWillDisposeModel(detach),
+    monaco.editor.onDidChangeModelLanguage(({ model }) => {
+      detach(model)
+      attach(model)
+    }),
+  ]
+
+  return {
+    dispose: () => {
+      disposables.forEach(disposable => disposable.dispose())
+      monaco.editor.getModels().forEach(detach)
+      listeners.forEach(listener => listener.content.dispose())
+      listeners.clear()
+    },
+  }
+}
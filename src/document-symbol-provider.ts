@@ -0,0 +1,62 @@
+import type * as Monaco from 'monaco-editor-core'
+import type { languages } from 'monaco-editor-core'
+import type { Range } from './find-matching-brackets'
+import { getDocumentSymbols, type MdcDocumentSymbol } from './get-document-symbols'
+
+/**
+ * Converts a zero-based range to a one-based Monaco range.
+ */
+function toMonacoRange(range: Range): Monaco.IRange {
+  return {
+    startLineNumber: range.startLine + 1,
+    startColumn: range.startColumn + 1,
+    endLineNumber: range.endLine + 1,
+    endColumn: range.endColumn + 1,
+  }
+}
+
+/**
+ * Creates a Monaco document symbol provider for the headings, block components, slots and frontmatter
+ * of MDC documents. This enables the outline, breadcrumbs, "Go to Symbol" and sticky scroll.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createDocumentSymbolProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.registerDocumentSymbolProvider('mdc', createDocumentSymbolProvider(monaco))
+ * ```
+ *
+ * @param monaco - The Monaco namespace, used to resolve symbol kinds
+ * @returns A document symbol provider to register for the MDC language
+ */
+export function createDocumentSymbolProvider(monaco: typeof Monaco): languages.DocumentSymbolProvider {
+  const kinds: Record<MdcDocumentSymbol['kind'], languages.SymbolKind> = {
+    heading: monaco.languages.SymbolKind.String,
+    component: monaco.languages.SymbolKind.Module,
+    slot: monaco.languages.SymbolKind.Field,
+    frontmatter: monaco.languages.SymbolKind.Namespace,
+  }
+
+  const toDocumentSymbol = (symbol: MdcDocumentSymbol): languages.DocumentSymbol => ({
+    name: symbol.name,
+    detail: symbol.detail,
+    kind: kinds[symbol.kind],
+    tags: [],
+    range: toMonacoRange(symbol.range),
+    selectionRange: toMonacoRange(symbol.selectionRange),
+    children: symbol.children.map(toDocumentSymbol),
+  })
+
+  return {
+    displayName: 'MDC',
+    provideDocumentSymbols: (model) => {
+      const symbols = getDocumentSymbols({
+        getLine: (lineNumber: number) => model.getLineContent(lineNumber + 1), // Monaco uses 1-based line numbers
+        lineCount: model.getLineCount(),
+      })
+
+      return symbols.map(toDocumentSymbol)
+    },
+  }
+}
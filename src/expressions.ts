@@ -2,22 +2,14 @@
 
 /** Leading whitespace */
 export const INDENT_REGEX = /^\s*/
-/* Matches block component opening tags like "::name" */
-export const COMPONENT_START_REGEX = /^\s*:{2,}[\w-]+/
-/* Matches block component closing tags like "::" */
-export const COMPONENT_END_REGEX = /^\s*:{2,}\s*$/
 /* Matches YAML multiline indicators "|" or ">" */
 export const MULTILINE_STRING_REGEX = /^[\w-]+:\s*[|>]/
-/* Matches markdown code block opening tags like "```" or "~~~" */
-export const CODE_BLOCK_REGEX = /^\s*(?:`{3,}|~{3,})/
-/* Matches unordered list items like "- item" or "* item" */
-export const UNORDERED_LIST_REGEX = /^\s*[-*]\s+/
-/* Matches ordered list items like "1. item" */
-export const ORDERED_LIST_REGEX = /^\s*\d+\.\s+/
-/* Matches task list items like "- [ ] item" or "* [x] item" */
-export const TASK_LIST_REGEX = /^\s*[-*]\s+\[.\]\s+/
-/* Matches parent properties (property ending with ":" without a value) */
-export const PARENT_PROPERTY_REGEX = /^[\w-]+:\s*$/
+/* Matches unordered list items like "- item", "* item" or "+ item" */
+export const UNORDERED_LIST_REGEX = /^\s*[-*+]\s+/
+/* Matches ordered list items like "1. item" or "1) item" */
+export const ORDERED_LIST_REGEX = /^\s*\d+[.)]\s+/
+/* Matches parent properties (property ending with ":" without a value), including quoted and dynamic property names */
+export const PARENT_PROPERTY_REGEX = /^(?::?[\w-]+|"[^"]+"|'[^']+')\s*:\s*$/
 /* Matches YAML array items (lines starting with "- ") */
 export const ARRAY_ITEM_REGEX = /^\s*-\s+/
 /* Matches MDC property names with double or single quotes in an object literal, e.g. `"property":` or `'property':` */
@@ -26,9 +18,23 @@ export const QUOTED_PROPERTY_NAME = /^"[^"]+"\s*:|^'[^']+'\s*:/
 export const QUOTED_PROPERTY_NAME_WITH_CAPTURE_GROUP = /^(?:"([^"]+)"|'([^']+)')\s*:/
 /* Matches MDC property names without quotes, e.g. `property:` */
 export const STANDARD_PROPERTY_NAME = /^:?([\w-]+)\s*:/
-/* Matches inline arrays (property ending with [] or [ ] or similar with whitespace between brackets) */
-export const INLINE_ARRAY_REGEX = /^[\w-]+:\s*\[\s*(?:\]\s*)?$/
-/* Matches the start of flow arrays (property ending with [ and some content) */
-export const FLOW_ARRAY_START_REGEX = /^[\w-]+:\s*\[\s*\S+/
 /* Matches YAML comment lines (lines starting with #) */
 export const YAML_COMMENT_REGEX = /^\s*#/
+/* Matches inline code spans and the attribute lists of components and spans, e.g. `{type="info"}` in ":badge{type="info"}" or `{.big}` in "[text]{.big}" */
+export const ATTRIBUTE_LIST_REGEX = /`[^`]*`|(?<=:[\w-]+|\])\{((?:"[^"]*"|'[^']*'|[^"'{}])*)\}/g
+/* Matches the attribute list at the end of a heading, e.g. `{#intro}` in "## Introduction {#intro}" */
+export const HEADING_ATTRIBUTE_LIST_REGEX = /\{((?:"[^"]*"|'[^']*'|[^"'{}])*)\}$/
+/* Matches an id, a class, or a prop with an optional value at the start of an attribute list */
+export const ATTRIBUTE_REGEX = /^(?:([#.][\w-]+)|(:?[\w-]+)(?:\s*=\s*("[^"]*"|'[^']*'|[^\s"'}]+))?)/
+/* Matches the cells of a table delimiter row, e.g. "---", ":---", "---:" or ":---:" */
+export const TABLE_DELIMITER_CELL_REGEX = /^:?-+:?$/
+/* Matches the pipes separating table cells, escaped pipes like "\|" excluded */
+export const TABLE_CELL_SEPARATOR_REGEX = /(?<!\\)\|/
+/* Matches a table row ending with a pipe that is not escaped, e.g. "| a |" but not "| a \|" */
+export const TABLE_TRAILING_PIPE_REGEX = /(?<!\\)\|$/
+/* Matches lines that are not paragraph text: block quotes, HTML, slots, stray component markers, thematic breaks, setext heading underlines, block math, fences and link reference definitions */
+export const NON_PROSE_LINE_REGEX = /^(?:[>#<]|:{2,}|[-*_=]{3,}|\$\$|`{3}|~{3}|\[[^\]]+\]:)/
+/* Matches words that would start a block when wrapped to the start of a line, e.g. "-", "1.", "#slot" or "::card" */
+export const BLOCK_START_WORD_REGEX = /^(?:[-+*>#|<=]|\d+[.)]$|:{2,}|`{3}|~{3}|\$\$|\[[^\]]*\]:)/
+/* Matches lines ending with a hard line break, a backslash or two spaces */
+export const HARD_LINE_BREAK_REGEX = /\\$| {2}$/
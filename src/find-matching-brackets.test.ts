@@ -1,16 +1,6 @@
 import { describe, it, expect } from 'vitest'
 import { findMatchingBrackets, type TextDocument, type Position } from './find-matching-brackets'
-
-/**
- * Creates a simple TextDocument implementation from a string.
- */
-function createDocument(content: string): TextDocument {
-  const lines = content.split('\n')
-  return {
-    getLine: (lineNumber: number) => lines[lineNumber] || '',
-    lineCount: lines.length,
-  }
-}
+import { createDocument } from './test-utils'
 
 describe('findMatchingBrackets', () => {
   describe('basic bracket matching', () => {
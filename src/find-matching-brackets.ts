@@ -5,6 +5,8 @@
  * Any changes to the function signatures or behavior should be tested and verified in the extension.
  */
 
+import { parseMdcStructure, walkMdcNodes, type MdcComponentNode } from './parse-mdc-structure'
+
 /** Represents a text document, providing methods to access its content. */
 export interface TextDocument {
   /**
@@ -54,17 +56,6 @@ export interface BracketMatch {
   colonCount: number
 }
 
-/**
- * Internal representation of a block component bracket.
- */
-interface BracketBlock {
-  line: number
-  colonCount: number
-  isOpening: boolean
-  /** For opening brackets, the tag name; for closing brackets, null */
-  tagName: string | null
-}
-
 /**
  * Finds matching MDC block component brackets (:: markers) when cursor is adjacent to one.
  *
@@ -86,38 +77,16 @@ export function findMatchingBrackets(
       return null
     }
 
-    // Build a map of all brackets in the document
-    const brackets = scanAllBrackets(document)
-    if (brackets.length === 0) {
-      return null
-    }
-
-    // Find the current bracket in our list
-    const currentBracketIndex = brackets.findIndex(
-      b => b.line === position.line,
-    )
-    if (currentBracketIndex === -1) {
-      return null
-    }
-
-    const currentBracket = brackets[currentBracketIndex]
-    const matchingBracket = findMatchingBracket(brackets, currentBracketIndex)
-
-    if (!matchingBracket) {
+    // Find the block component opened or closed on the current line
+    const component = findComponentAtLine(document, position.line)
+    if (!component || !component.closingRange) {
       return null
     }
 
-    // Return the match with brackets in correct order
     return {
-      opening: createBracketRange(
-        document,
-        currentBracket.isOpening ? currentBracket : matchingBracket,
-      ),
-      closing: createBracketRange(
-        document,
-        currentBracket.isOpening ? matchingBracket : currentBracket,
-      ),
-      colonCount: currentBracket.colonCount,
+      opening: component.openingRange,
+      closing: component.closingRange,
+      colonCount: component.colonCount,
     }
   }
   catch (error) {
@@ -170,167 +139,20 @@ function detectBracketAtPosition(
 }
 
 /**
- * Scans the entire document for all block component brackets.
+ * Finds the block component whose opening or closing marker is on the given line.
  *
- * Note: This performs a full document scan on each cursor movement.
+ * Note: This parses the full document on each cursor movement.
  * For large documents, this could be optimized by caching results
  * and incrementally updating on document changes.
  */
-function scanAllBrackets(document: TextDocument): BracketBlock[] {
-  const brackets: BracketBlock[] = []
-  let insideCodeBlock = false
-
-  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
-    const lineContent = document.getLine(lineNumber)
-    const trimmed = lineContent.trim()
-
-    // Check for code block markers
-    if (/^\s*(?:`{3,}|~{3,})/.test(trimmed)) {
-      insideCodeBlock = !insideCodeBlock
-      continue
-    }
+function findComponentAtLine(document: TextDocument, line: number): MdcComponentNode | null {
+  let component: MdcComponentNode | null = null
 
-    // Skip lines inside markdown code blocks
-    if (insideCodeBlock) {
-      continue
+  walkMdcNodes(parseMdcStructure(document).children, (node) => {
+    if (node.type === 'component' && (node.openingRange.startLine === line || node.closingRange?.startLine === line)) {
+      component = node
     }
+  })
 
-    // Match opening brackets: ::component-name
-    const openingMatch = trimmed.match(/^(:{2,})([\w-]+)/)
-    if (openingMatch) {
-      brackets.push({
-        line: lineNumber,
-        colonCount: openingMatch[1].length,
-        isOpening: true,
-        tagName: openingMatch[2],
-      })
-      continue
-    }
-
-    // Match closing brackets: ::
-    const closingMatch = trimmed.match(/^(:{2,})$/)
-    if (closingMatch) {
-      brackets.push({
-        line: lineNumber,
-        colonCount: closingMatch[1].length,
-        isOpening: false,
-        tagName: null,
-      })
-    }
-  }
-
-  return brackets
-}
-
-/**
- * Finds the matching bracket for a given bracket using stack-based matching.
- * Only matches brackets with identical colon counts (:: matches :: but not :::).
- *
- * Algorithm:
- * - For opening brackets: scan forward, using a stack to track nesting
- * - For closing brackets: scan backward, using a stack to track nesting
- * - Pop from stack when matching colon count is found
- * - Return match when stack is empty
- */
-function findMatchingBracket(
-  brackets: BracketBlock[],
-  currentIndex: number,
-): BracketBlock | null {
-  const currentBracket = brackets[currentIndex]
-
-  if (currentBracket.isOpening) {
-    // Find matching closing bracket forward
-    const stack: BracketBlock[] = [currentBracket]
-
-    for (let i = currentIndex + 1; i < brackets.length; i++) {
-      const bracket = brackets[i]
-
-      if (bracket.isOpening) {
-        stack.push(bracket)
-      }
-      else {
-        const lastOpening = stack[stack.length - 1]
-        if (lastOpening && lastOpening.colonCount === bracket.colonCount) {
-          stack.pop()
-          if (stack.length === 0) {
-            return bracket
-          }
-        }
-      }
-    }
-  }
-  else {
-    // Find matching opening bracket backward
-    const stack: BracketBlock[] = [currentBracket]
-
-    for (let i = currentIndex - 1; i >= 0; i--) {
-      const bracket = brackets[i]
-
-      if (!bracket.isOpening) {
-        stack.push(bracket)
-      }
-      else {
-        const lastClosing = stack[stack.length - 1]
-        if (lastClosing && lastClosing.colonCount === bracket.colonCount) {
-          stack.pop()
-          if (stack.length === 0) {
-            return bracket
-          }
-        }
-      }
-    }
-  }
-
-  return null
-}
-
-/**
- * Creates a Range for a bracket.
- *
- * For opening brackets, includes the colons and component name (e.g., `::component-name`).
- * For closing brackets, includes only the colons (e.g., `::`).
- */
-function createBracketRange(
-  document: TextDocument,
-  bracket: BracketBlock,
-): Range {
-  const lineNumber = bracket.line
-  const lineContent = document.getLine(lineNumber)
-
-  if (bracket.isOpening) {
-    // Match the colons and component name
-    const match = lineContent.match(/(:{2,})([\w-]+)/)
-    if (match) {
-      const startColumn = lineContent.indexOf(match[0])
-      const endColumn = startColumn + match[0].length
-      return {
-        startLine: lineNumber,
-        startColumn,
-        endLine: lineNumber,
-        endColumn,
-      }
-    }
-  }
-  else {
-    // Match just the colons
-    const match = lineContent.match(/(:{2,})$/)
-    if (match) {
-      const startColumn = lineContent.lastIndexOf(match[0])
-      const endColumn = startColumn + match[0].length
-      return {
-        startLine: lineNumber,
-        startColumn,
-        endLine: lineNumber,
-        endColumn,
-      }
-    }
-  }
-
-  // Fallback to entire line
-  return {
-    startLine: lineNumber,
-    startColumn: 0,
-    endLine: lineNumber,
-    endColumn: lineContent.length,
-  }
+  return component
 }
@@ -18,5 +18,7 @@ export const foldingProvider = (model: editor.ITextModel): languages.ProviderRes
   return ranges.map(range => ({
     start: range.start + 1,
     end: range.end + 1,
+    // Structurally equivalent to `languages.FoldingRangeKind.Comment`, `.Imports` and `.Region`
+    kind: range.kind ? { value: range.kind } : undefined,
   }))
 }
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { isPropertyLine, isEmptyProperty, getPropertyName, isArrayProperty, getIndent, isYamlComment } from './formatter-utils'
+import { isPropertyLine, isEmptyProperty, getPropertyName, isArrayProperty, getIndent, isYamlComment, normalizeAttributeList, normalizeAttributeLists, alignTable, wrapProse } from './formatter-utils'
 
 describe('formatter-utils', () => {
   describe('isPropertyLine', () => {
@@ -442,4 +442,116 @@ describe('formatter-utils', () => {
       expect(getIndent(6)).toBe('      ')
     })
   })
+
+  describe('normalizeAttributeList', () => {
+    it('orders the ids, classes and props', () => {
+      expect(normalizeAttributeList(' type = \'info\'   .big #x')).toBe('{#x .big type="info"}')
+      expect(normalizeAttributeList('disabled .a :items=\'["a"]\' #main .b')).toBe('{#main .a .b disabled :items=\'["a"]\'}')
+    })
+
+    it('collapses duplicate classes', () => {
+      expect(normalizeAttributeList('.big .primary .big')).toBe('{.big .primary}')
+    })
+
+    it('quotes values with double quotes unless they contain one', () => {
+      expect(normalizeAttributeList('type=info to=/docs')).toBe('{type="info" to="/docs"}')
+      expect(normalizeAttributeList('label=\'Say "hi"\' title=\'It\'')).toBe('{label=\'Say "hi"\' title="It"}')
+    })
+
+    it('returns the empty attribute list', () => {
+      expect(normalizeAttributeList('  ')).toBe('{}')
+    })
+
+    it('returns null for attribute lists that cannot be parsed', () => {
+      expect(normalizeAttributeList('type="info')).toBeNull()
+      expect(normalizeAttributeList('@click="open"')).toBeNull()
+    })
+  })
+
+  describe('normalizeAttributeLists', () => {
+    it('normalizes the attribute lists of components and spans', () => {
+      expect(normalizeAttributeLists('::alert{ type=info  #x}')).toBe('::alert{#x type="info"}')
+      expect(normalizeAttributeLists('A :badge{ .big  .big } and :badge[New]{type=\'info\'} in [text]{ .red }'))
+        .toBe('A :badge{.big} and :badge[New]{type="info"} in [text]{.red}')
+    })
+
+    it('leaves inline code and other braces unchanged', () => {
+      expect(normalizeAttributeLists('`:badge{ .big }` and `code`{lang=ts} and { .big }')).toBe('`:badge{ .big }` and `code`{lang=ts} and { .big }')
+      expect(normalizeAttributeLists(':badge{type="info}')).toBe(':badge{type="info}')
+    })
+
+    it('normalizes the attribute list at the end of headings', () => {
+      expect(normalizeAttributeLists('## Introduction { .title  #intro }', true)).toBe('## Introduction {#intro .title}')
+      expect(normalizeAttributeLists('## Introduction { .title  #intro }')).toBe('## Introduction { .title  #intro }')
+    })
+  })
+
+  describe('alignTable', () => {
+    it('pads the cells to the column width', () => {
+      expect(alignTable(['| Name | Description |', '|-|-|', '| `mdc` | Markdown Components |'])).toEqual([
+        '| Name  | Description         |',
+        '| ----- | ------------------- |',
+        '| `mdc` | Markdown Components |',
+      ])
+    })
+
+    it('respects the column alignment', () => {
+      expect(alignTable(['Left | Center | Right | None', ':--|:-:|--:|---', 'a | b | c | d'])).toEqual([
+        '| Left | Center | Right | None |',
+        '| :--- | :----: | ----: | ---- |',
+        '| a    |   b    |     c | d    |',
+      ])
+    })
+
+    it('keeps escaped pipes in their cell, including within inline code', () => {
+      expect(alignTable(['| Syntax | Result |', '| --- | --- |', '| `a \\| b` | a \\| b |', '| `a | b` |'])).toEqual([
+        '| Syntax   | Result |',
+        '| -------- | ------ |',
+        '| `a \\| b` | a \\| b |',
+        '| `a       | b`     |',
+      ])
+    })
+
+    it('fills the missing cells of body rows', () => {
+      expect(alignTable(['| a | b |', '| --- | --- |', '| 1 |', '|'])).toEqual([
+        '| a   | b   |',
+        '| --- | --- |',
+        '| 1   |     |',
+        '|     |     |',
+      ])
+    })
+
+    it('returns null for rows that are not a table', () => {
+      expect(alignTable(['| a | b |'])).toBeNull()
+      expect(alignTable(['| a | b |', '| --- |'])).toBeNull()
+      expect(alignTable(['| a | b |', '| --- | text |'])).toBeNull()
+      expect(alignTable(['a', '---'])).toBeNull()
+      expect(alignTable(['| a |', '| --- |', '| 1 | 2 |'])).toBeNull()
+    })
+  })
+
+  describe('wrapProse', () => {
+    it('wraps the words at the width', () => {
+      expect(wrapProse('The quick brown fox jumps over the lazy dog', 16)).toEqual(['The quick brown', 'fox jumps over', 'the lazy dog'])
+    })
+
+    it('never splits inline code, links and attribute lists', () => {
+      expect(wrapProse('See `npm run dev` in [the docs](/guide/getting started) or :badge{type="info" .big}', 12)).toEqual([
+        'See',
+        '`npm run dev`',
+        'in',
+        '[the docs](/guide/getting started)',
+        'or',
+        ':badge{type="info" .big}',
+      ])
+    })
+
+    it('keeps the words that would start a block on the previous line', () => {
+      expect(wrapProse('Costs 5 - 10 dollars, see #pricing', 7)).toEqual(['Costs 5 -', '10', 'dollars,', 'see #pricing'])
+    })
+
+    it('keeps escaped characters in their word', () => {
+      expect(wrapProse('a \\[b c', 3)).toEqual(['a', '\\[b', 'c'])
+    })
+  })
 })
@@ -1,9 +1,16 @@
 import {
   ARRAY_ITEM_REGEX,
+  ATTRIBUTE_LIST_REGEX,
+  ATTRIBUTE_REGEX,
+  BLOCK_START_WORD_REGEX,
+  HEADING_ATTRIBUTE_LIST_REGEX,
   PARENT_PROPERTY_REGEX,
   QUOTED_PROPERTY_NAME_WITH_CAPTURE_GROUP,
   QUOTED_PROPERTY_NAME,
   STANDARD_PROPERTY_NAME,
+  TABLE_CELL_SEPARATOR_REGEX,
+  TABLE_DELIMITER_CELL_REGEX,
+  TABLE_TRAILING_PIPE_REGEX,
   YAML_COMMENT_REGEX,
 } from './expressions'
 
@@ -107,6 +114,209 @@ export function isYamlComment(line: string): boolean {
   return YAML_COMMENT_REGEX.test(line)
 }
 
+/**
+ * Helper function to quote an attribute value with double quotes, or single quotes if the value contains a double quote.
+ *
+ * @param {string} value - The quoted or unquoted attribute value
+ * @returns {string} - The quoted attribute value
+ */
+function quoteAttributeValue(value: string): string {
+  const unquoted = value.startsWith('"') || value.startsWith('\'') ? value.slice(1, -1) : value
+  return unquoted.includes('"') ? `'${unquoted}'` : `"${unquoted}"`
+}
+
+/**
+ * Helper function to normalize the content of an attribute list: the ids, then the classes without duplicates,
+ * then the props in their original order, separated by single spaces and with quoted values.
+ *
+ * @param {string} attributes - The attribute list content without the braces, e.g. ` type = 'info'   .big #x`
+ * @returns {string | null} - The normalized attribute list with its braces, e.g. `{#x .big type="info"}`, or `null` if it cannot be parsed
+ */
+export function normalizeAttributeList(attributes: string): string | null {
+  const ids: string[] = []
+  const classes = new Set<string>()
+  const props: string[] = []
+  let rest = attributes.trim()
+  while (rest !== '') {
+    const match = rest.match(ATTRIBUTE_REGEX)
+    if (!match) {
+      return null
+    }
+    const [attribute, selector, key, value] = match
+    if (selector?.startsWith('#')) {
+      ids.push(selector)
+    }
+    else if (selector) {
+      classes.add(selector)
+    }
+    else {
+      props.push(value === undefined ? key : `${key}=${quoteAttributeValue(value)}`)
+    }
+    rest = rest.slice(attribute.length).trimStart()
+  }
+  return `{${[...ids, ...classes, ...props].join(' ')}}`
+}
+
+/**
+ * Helper function to normalize the attribute lists of the block and inline components and spans of a line,
+ * and of the heading itself for heading lines. Inline code and attribute lists that cannot be parsed are left unchanged.
+ *
+ * @param {string} line - The line content
+ * @param {boolean} isHeading - Whether the line is a heading, e.g. `## Introduction {#intro}`
+ * @returns {string} - The line with its attribute lists normalized
+ */
+export function normalizeAttributeLists(line: string, isHeading: boolean = false): string {
+  const normalize = (match: string, attributes: string | undefined) => attributes === undefined ? match : normalizeAttributeList(attributes) ?? match
+  const normalized = line.replace(ATTRIBUTE_LIST_REGEX, normalize)
+  return isHeading ? normalized.replace(HEADING_ATTRIBUTE_LIST_REGEX, normalize) : normalized
+}
+
+/**
+ * The alignment of a table column set by its delimiter row cell, e.g. `:---:` for `'center'`.
+ */
+type TableAlignment = 'left' | 'center' | 'right' | null
+
+/**
+ * Helper function to split a table row into its trimmed cells. Escaped pipes, e.g. `\|`, do not separate cells,
+ * including within inline code, e.g. `` `a \| b` ``, as in GitHub Flavored Markdown.
+ *
+ * @param {string} row - The trimmed table row, e.g. `| a | b |`
+ * @returns {string[]} - The cells, without the leading and trailing pipes
+ */
+function splitTableRow(row: string): string[] {
+  const cells = row.split(TABLE_CELL_SEPARATOR_REGEX).map(cell => cell.trim())
+  if (row.startsWith('|')) {
+    cells.shift()
+  }
+  if (cells.length > 0 && TABLE_TRAILING_PIPE_REGEX.test(row)) {
+    cells.pop()
+  }
+  return cells
+}
+
+/**
+ * Helper function to pad a table cell to the column width, by the column alignment.
+ */
+function padTableCell(cell: string, width: number, alignment: TableAlignment): string {
+  const padding = width - cell.length
+  if (alignment === 'right') {
+    return ' '.repeat(padding) + cell
+  }
+  if (alignment === 'center') {
+    const left = Math.floor(padding / 2)
+    return ' '.repeat(left) + cell + ' '.repeat(padding - left)
+  }
+  return cell + ' '.repeat(padding)
+}
+
+/**
+ * Helper function to align the rows of a pipe table: the cells are padded to the width of their column by the
+ * column alignment, e.g. centered for `:---:`, the delimiter row cells fill the column width,
+ * and every row has leading and trailing pipes and as many cells as the header row.
+ *
+ * @param {string[]} rows - The trimmed table rows: the header row, the delimiter row, e.g. `|:--|--:|`, and the body rows
+ * @returns {string[] | null} - The aligned rows, or `null` if the rows are not a table or a body row has more cells than the header row
+ */
+export function alignTable(rows: string[]): string[] | null {
+  if (rows.length < 2 || !rows[0].includes('|') || !rows[1].includes('|')) {
+    return null
+  }
+  const [header, delimiters, ...body] = rows.map(splitTableRow)
+  if (header.length !== delimiters.length || !delimiters.every(cell => TABLE_DELIMITER_CELL_REGEX.test(cell)) || body.some(cells => cells.length > header.length)) {
+    return null
+  }
+
+  const alignments: TableAlignment[] = delimiters.map((cell) => {
+    if (cell.startsWith(':')) {
+      return cell.endsWith(':') ? 'center' : 'left'
+    }
+    return cell.endsWith(':') ? 'right' : null
+  })
+  const cellRows = [header, ...body].map(cells => header.map((_, column) => cells[column] ?? ''))
+  // Delimiter cells need at least three characters, e.g. `:-:`
+  const widths = header.map((_, column) => Math.max(3, ...cellRows.map(cells => cells[column].length)))
+
+  const formatRow = (cells: string[]) => `| ${cells.join(' | ')} |`
+  const delimiterRow = formatRow(alignments.map((alignment, column) => {
+    const dashes = '-'.repeat(widths[column] - (alignment === 'center' ? 2 : alignment ? 1 : 0))
+    return (alignment === 'left' || alignment === 'center' ? ':' : '') + dashes + (alignment === 'right' || alignment === 'center' ? ':' : '')
+  }))
+  const [headerRow, ...bodyRows] = cellRows.map(cells => formatRow(cells.map((cell, column) => padTableCell(cell, widths[column], alignments[column]))))
+  return [headerRow, delimiterRow, ...bodyRows]
+}
+
+/* The characters closing the groups that are never split across lines */
+const PROSE_GROUP_CLOSINGS: Record<string, string> = { '[': ']', '{': '}', '`': '`' }
+
+/**
+ * Helper function to split paragraph text into the words it can be wrapped between. Inline code, link texts and spans,
+ * link destinations and attribute lists are kept in their word, e.g. `:badge{type="info" .big}` or `[the docs](/docs)`.
+ *
+ * @param {string} text - The paragraph text
+ * @returns {string[]} - The words, without the whitespace between them
+ */
+function splitProseWords(text: string): string[] {
+  const words: string[] = []
+  let word = ''
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    // Link destinations follow the link text, e.g. `(/docs)` in `[the docs](/docs)`
+    const closing = char === '(' && text[i - 1] === ']' ? ')' : PROSE_GROUP_CLOSINGS[char]
+    const end = closing ? text.indexOf(closing, i + 1) : -1
+    if (char === '\\' && i + 1 < text.length) {
+      word += char + text[i + 1]
+      i++
+    }
+    else if (end !== -1) {
+      word += text.slice(i, end + 1)
+      i = end
+    }
+    else if (/\s/.test(char)) {
+      if (word !== '') {
+        words.push(word)
+      }
+      word = ''
+    }
+    else {
+      word += char
+    }
+  }
+  if (word !== '') {
+    words.push(word)
+  }
+  return words
+}
+
+/**
+ * Helper function to wrap paragraph text to a maximum line width. Words are never split, so words longer than
+ * the width get their own line, and words that would start a block at the start of a line, e.g. `-` or `#slot`,
+ * stay on the previous line.
+ *
+ * @param {string} text - The paragraph text
+ * @param {number} width - The maximum line width
+ * @returns {string[]} - The wrapped lines
+ */
+export function wrapProse(text: string, width: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of splitProseWords(text)) {
+    if (line === '') {
+      line = word
+    }
+    else if (line.length + 1 + word.length <= width || BLOCK_START_WORD_REGEX.test(word)) {
+      line += ' ' + word
+    }
+    else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line !== '') {
+    lines.push(line)
+  }
+  return lines
+}
+
 /**
  * Cache for commonly used indentation strings to avoid repeated string creation
  */
@@ -0,0 +1,269 @@
+import { describe, it, expect } from 'vitest'
+import { formatter } from './formatter'
+
+describe('formatter', () => {
+  describe('normalizeComponentMarkers', () => {
+    const content = [
+      '::::hero',
+      '#title',
+      '::card',
+      ':::::badge{type="info"}',
+      'New',
+      ':::::',
+      '::',
+      '::::',
+      '::alert',
+      ':::note',
+      'Text',
+      ':::',
+      '::',
+      '',
+    ].join('\n')
+
+    it('keeps the markers as written by default', () => {
+      expect(formatter(content, { tabSize: 2 })).toBe([
+        '::::hero',
+        '#title',
+        '  ::card',
+        '    :::::badge{type="info"}',
+        '    New',
+        '    :::::',
+        '  ::',
+        '::::',
+        '::alert',
+        '  :::note',
+        '  Text',
+        '  :::',
+        '::',
+        '',
+      ].join('\n'))
+    })
+
+    it('grows the colon count with the nesting depth', () => {
+      expect(formatter(content, { tabSize: 2, normalizeComponentMarkers: 'depth' })).toBe([
+        '::hero',
+        '#title',
+        '  :::card',
+        '    ::::badge{type="info"}',
+        '    New',
+        '    ::::',
+        '  :::',
+        '::',
+        '::alert',
+        '  :::note',
+        '  Text',
+        '  :::',
+        '::',
+        '',
+      ].join('\n'))
+    })
+
+    it('uses two colons for every component', () => {
+      const formatted = formatter(content, { tabSize: 2, normalizeComponentMarkers: 'uniform' })
+
+      expect(formatted).toBe([
+        '::hero',
+        '#title',
+        '  ::card',
+        '    ::badge{type="info"}',
+        '    New',
+        '    ::',
+        '  ::',
+        '::',
+        '::alert',
+        '  ::note',
+        '  Text',
+        '  ::',
+        '::',
+        '',
+      ].join('\n'))
+      expect(formatter(formatted, { tabSize: 2, normalizeComponentMarkers: 'uniform' })).toBe(formatted)
+    })
+
+    it('leaves the markers of unbalanced documents unchanged', () => {
+      expect(formatter('::::outer\n::inner\nText\n::::\n', { tabSize: 2, normalizeComponentMarkers: 'depth' }))
+        .toBe('::::outer\n  ::inner\n  Text\n  ::::\n')
+      expect(formatter('::card\nText\n::\n:::\n', { tabSize: 2, normalizeComponentMarkers: 'depth' }))
+        .toBe('::card\nText\n::\n:::\n')
+    })
+  })
+
+  describe('normalizeAttributes', () => {
+    const content = [
+      '# Title { .big #title }',
+      '',
+      '::card{ title = \'Hello\'   .wide #main .wide}',
+      'A :badge{ type=info } and [span]{ .red  .bold } with `:code{ .x }`',
+      '- Item :icon{ name=\'i-mdi\' }',
+      '```md',
+      ':badge{ type=info }',
+      '```',
+      '::',
+      '',
+    ].join('\n')
+
+    it('keeps the attribute lists as written by default', () => {
+      expect(formatter(content, { tabSize: 2 })).toBe(content)
+    })
+
+    it('normalizes the attribute lists outside of code', () => {
+      const formatted = formatter(content, { tabSize: 2, normalizeAttributes: true })
+
+      expect(formatted).toBe([
+        '# Title {#title .big}',
+        '',
+        '::card{#main .wide title="Hello"}',
+        'A :badge{type="info"} and [span]{.red .bold} with `:code{ .x }`',
+        '- Item :icon{name="i-mdi"}',
+        '```md',
+        ':badge{ type=info }',
+        '```',
+        '::',
+        '',
+      ].join('\n'))
+      expect(formatter(formatted, { tabSize: 2, normalizeAttributes: true })).toBe(formatted)
+    })
+
+    it('combines with normalizeComponentMarkers', () => {
+      expect(formatter(':::card{ .wide }\n:::\n', { tabSize: 2, normalizeAttributes: true, normalizeComponentMarkers: 'uniform' }))
+        .toBe('::card{.wide}\n::\n')
+    })
+  })
+
+  describe('alignTables', () => {
+    const content = [
+      '::card',
+      '| a | b |',
+      '|---|:-:|',
+      '| long cell | 1 |',
+      '::',
+      '',
+    ].join('\n')
+
+    it('aligns tables at the indentation of their component', () => {
+      expect(formatter(`::outer\n${content}::\n`, { tabSize: 2 })).toBe([
+        '::outer',
+        '  ::card',
+        '  | a         |  b  |',
+        '  | --------- | :-: |',
+        '  | long cell |  1  |',
+        '  ::',
+        '::',
+        '',
+      ].join('\n'))
+    })
+
+    it('only indents tables when disabled or formatting on-type', () => {
+      expect(formatter(content, { tabSize: 2, alignTables: false })).toBe(content)
+      expect(formatter(content, { tabSize: 2, isFormatOnType: true })).toBe(content)
+    })
+
+    it('leaves rows that are not a table unchanged', () => {
+      const text = 'A | B\nC | D\n\n| a |\n| --- |\n| 1 | 2 |\n'
+
+      expect(formatter(text, { tabSize: 2 })).toBe(text)
+    })
+  })
+
+  describe('proseWrap', () => {
+    const content = [
+      'A paragraph with a :badge{type="info"} component',
+      'and a [link](/docs) on two lines.',
+      '',
+      '::card',
+      'Card text that is long enough to be wrapped inside of the card component.',
+      '- A list item that is long enough to be wrapped but is kept as written.',
+      '::',
+      '',
+    ].join('\n')
+
+    it('keeps the line breaks as written by default', () => {
+      expect(formatter(content, { tabSize: 2 })).toBe(content)
+    })
+
+    it('wraps the paragraphs at the print width minus their indent', () => {
+      const formatted = formatter(`::outer\n${content}::\n`, { tabSize: 2, proseWrap: 'always', printWidth: 40 })
+
+      expect(formatted).toBe([
+        '::outer',
+        'A paragraph with a :badge{type="info"}',
+        'component and a [link](/docs) on two',
+        'lines.',
+        '',
+        '  ::card',
+        '  Card text that is long enough to be',
+        '  wrapped inside of the card component.',
+        '  - A list item that is long enough to be wrapped but is kept as written.',
+        '  ::',
+        '::',
+        '',
+      ].join('\n'))
+      expect(formatter(formatted, { tabSize: 2, proseWrap: 'always', printWidth: 40 })).toBe(formatted)
+    })
+
+    it('joins the lines of each paragraph', () => {
+      expect(formatter(content, { tabSize: 2, proseWrap: 'never' })).toBe([
+        'A paragraph with a :badge{type="info"} component and a [link](/docs) on two lines.',
+        '',
+        '::card',
+        'Card text that is long enough to be wrapped inside of the card component.',
+        '- A list item that is long enough to be wrapped but is kept as written.',
+        '::',
+        '',
+      ].join('\n'))
+    })
+
+    it('never joins blocks or lines ending with a hard line break', () => {
+      const text = [
+        '# Heading',
+        'Line with a break\\',
+        'Next line',
+        '> Quote',
+        '| a   | b   |',
+        '| --- | --- |',
+        '```ts',
+        'const a = 1',
+        '```',
+        '',
+      ].join('\n')
+
+      expect(formatter(text, { tabSize: 2, proseWrap: 'never' })).toBe(text)
+    })
+
+    it('never joins list items into paragraphs', () => {
+      const text = 'Para\n+ one\n+ two\n\nPara\n1) one\n2) two\n\n- a\n* b\n1. c\n'
+
+      expect(formatter(text, { tabSize: 2, proseWrap: 'never' })).toBe(text)
+      expect(formatter(text, { tabSize: 2, proseWrap: 'always', printWidth: 3 })).toBe(text)
+    })
+
+    it('keeps hard line breaks of two spaces', () => {
+      expect(formatter('a  \nb\n', { tabSize: 2, proseWrap: 'never' })).toBe('a  \nb\n')
+      expect(formatter('a b  \nc d\n', { tabSize: 2, proseWrap: 'always', printWidth: 2 })).toBe('a\nb  \nc\nd\n')
+      expect(formatter('a  \nb\n', { tabSize: 2 })).toBe('a  \nb\n')
+    })
+
+    it.each(['always', 'never', 'preserve'] as const)('formats the formatted content the same with %s', (proseWrap) => {
+      const text = [
+        'A paragraph with a hard line break  ',
+        'and a :badge{type="info"} that continues on a second line.',
+        '+ one',
+        '1) two',
+        '',
+        '::card',
+        'Card text  ',
+        'with a break and a [link](/docs) inside of the card component.',
+        '::',
+        '',
+      ].join('\n')
+      const formatted = formatter(text, { tabSize: 2, proseWrap, printWidth: 30 })
+
+      expect(formatted).toContain('break  \n')
+      expect(formatter(formatted, { tabSize: 2, proseWrap, printWidth: 30 })).toBe(formatted)
+    })
+
+    it('keeps the paragraphs as written when formatting on-type', () => {
+      expect(formatter('A\nB\n', { tabSize: 2, proseWrap: 'never', isFormatOnType: true })).toBe('A\nB\n')
+    })
+  })
+})
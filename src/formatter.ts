@@ -7,684 +7,535 @@
  */
 
 import * as exp from './expressions'
-import {
-  getIndent,
-  getPropertyName,
-  isArrayProperty,
-  isEmptyProperty,
-  isPropertyLine,
-  isYamlComment,
-} from './formatter-utils'
+import { alignTable, getIndent, isEmptyProperty, isPropertyLine, isYamlComment, normalizeAttributeLists, wrapProse } from './formatter-utils'
+import { parseMdcStructure, type MdcNode, type MdcComponentNode, type MdcStructure } from './parse-mdc-structure'
 
 /**
  * Formatter Options
  */
-interface FormatterOptions {
+export interface FormatterOptions {
   /** The number of spaces to use for indentation. Defaults to `2`. */
   tabSize?: number
   /** Whether the formatter is being used for on-type formatting. Defaults to `false`. */
   isFormatOnType?: boolean
+  /**
+   * Rewrites the colons of block component markers, closing markers matching their opening marker:
+   * - `'depth'`: The colon count grows with the nesting depth, `::` for top-level components, `:::` for the components nested in them, etc.
+   * - `'uniform'`: Every component uses `::`.
+   *
+   * Documents with unclosed components or unmatched closing markers are left unchanged. Defaults to `false`.
+   */
+  normalizeComponentMarkers?: false | 'depth' | 'uniform'
+  /**
+   * Rewrites the attribute lists of block components, inline components, spans and headings, e.g. `:badge{ type = 'info'   .big #x}`
+   * to `:badge{#x .big type="info"}`: the ids, then the classes without duplicates, then the props in their original order,
+   * separated by single spaces, with values in double quotes unless they contain one.
+   *
+   * Inline code and attribute lists that cannot be parsed are left unchanged. Defaults to `false`.
+   */
+  normalizeAttributes?: boolean
+  /**
+   * Aligns pipe tables: the cells are padded to the width of their column by the alignment of its delimiter row cell,
+   * e.g. centered for `:---:`. Escaped pipes, e.g. `` `a \| b` ``, do not separate cells.
+   *
+   * Tables are only indented when formatting on-type, as padding the cells would move the cursor. Defaults to `true`.
+   */
+  alignTables?: boolean
+  /**
+   * Re-flows paragraph text, inside and outside of block components:
+   * - `'always'`: Wraps the paragraphs at `printWidth`, minus the indent of their enclosing block component.
+   * - `'never'`: Joins the lines of each paragraph into a single line.
+   * - `'preserve'`: Keeps the line breaks as written.
+   *
+   * Component markers, YAML blocks, code fences, tables, headings and list items are never wrapped, nor inline code,
+   * links and attribute lists, e.g. `:badge{type="info"}`, and hard line breaks are kept. Paragraphs are kept as written when formatting on-type. Defaults to `'preserve'`.
+   */
+  proseWrap?: 'always' | 'never' | 'preserve'
+  /** The maximum line width of paragraphs with `proseWrap: 'always'`. Defaults to `80`. */
+  printWidth?: number
 }
 
 /**
- * Tracks YAML block state including base indentation and
- * special handling for multiline string content
+ * Shared state of a single formatting run.
  */
-interface YamlState {
-  /* Base indentation level for YAML block */
-  baseIndent: number | null
-  /* Starting indent for multiline strings */
-  multilineBaseIndent: number | null
-  /* Minimum required indent for multiline content */
-  multilineMinimumIndent: number | null
+interface FormatContext {
+  /* The original lines */
+  lines: string[]
+  /* The formatted lines, at the same index as their original line, `null` for lines joined into a previous line */
+  formattedLines: (string | null)[]
+  /* The number of spaces to use for indentation */
+  tabSize: number
+  /* Whether the formatter is being used for on-type formatting */
+  isFormatOnType: boolean
+  /* The normalized colon count of each block component, `null` to keep the markers as written */
+  colonCounts: Map<MdcComponentNode, number> | null
+  /* Whether to normalize the attribute lists */
+  normalizeAttributes: boolean
+  /* Whether to align pipe tables */
+  alignTables: boolean
+  /* How to re-flow paragraph text */
+  proseWrap: 'always' | 'never' | 'preserve'
+  /* The maximum line width of wrapped paragraphs */
+  printWidth: number
 }
 
 /**
- * Represents the state of a markdown list in the document.
+ * A YAML line that other lines can be nested in: a property without a value, an array item,
+ * or a property without a value following an array marker, e.g. `env:` in `- env:`.
  */
-interface ListState {
-  /* Parent component's indent level */
-  componentLevel: number
-  /* Original indent of first list item */
-  baseIndent: number
-  /* Track indent levels for hierarchy */
-  nestingLevels: number[]
-  /* Track which component owns this list */
-  componentId: number
+interface YamlFrame {
+  /* What opened the frame */
+  kind: 'property' | 'item' | 'itemProperty'
+  /* Original indent of the property name or array marker */
+  indent: number
+  /* Formatted indent of the nested lines */
+  childIndent: number
+  /* Original indent of the first nested line */
+  firstChildIndent: number | null
 }
 
 /**
- * Track the indentation hierarchy of parent properties.
+ * A YAML multiline string, e.g. `styles: |`.
  */
-interface PropertyContext {
-  /* Name of the property */
-  name: string
-  /* Indentation level of this property */
-  indent: number
-  /* Whether this is a parent property */
-  isParent: boolean
-  /* How deep we are in the nesting hierarchy (0 = root level) */
-  parentDepth: number
+interface MultilineString {
+  /* Original indent of the property, lines that are not indented further end the string */
+  propertyIndent: number
+  /* Formatted indent of the string content */
+  contentIndent: number
+  /* Original indent of the first content line, deeper lines keep their relative indentation */
+  baseIndent: number | null
 }
 
 /**
- * Add a structure to track array items at each level in the hierarchy.
+ * Returns the number of leading whitespace characters of a line.
  */
-interface ArrayLevelInfo {
-  /* Indentation level */
-  level: number
-  /* Original indent */
-  indent: number
-  /* Formatted indent for items at this level */
-  itemIndent: number
+function getLineIndent(line: string): number {
+  return line.match(exp.INDENT_REGEX)?.[0].length || 0
 }
 
 /**
- * MDC Formatter: Handles formatting and indentation of MDC files which contain:
- * - MDC block components
- * - MDC block component YAML frontmatter, including multiline strings
- * - Nested MDC block components
- *
- * @param {string} content - The raw MDC content to format
- * @param {FormatterOptions} options - The formatter options
- * @param {number} options.tabSize - The number of spaces to use for indentation. Defaults to `2`.
- * @param {boolean} options.isFormatOnType - Whether the formatter is being used for on-type formatting. Defaults to `false`.
+ * Returns the normalized colon count of each block component, or `null` when a component is not closed
+ * or a closing marker has no opening marker, as rewriting the markers could change the structure.
  */
-export const formatter = (content: string, { tabSize = 2, isFormatOnType = false }: FormatterOptions): string => {
-  // Apply single formatter pass
-  const singleFormatPass = (input: string): string => {
-    // Split input into lines and pre-allocate output array
-    const lines = input.split('\n')
-    const formattedLines = Array.from({ length: lines.length })
-    // Tracks nested component indentation levels
-    const componentIndentStack: number[] = []
-
-    // State tracking variables
-
-    // Current indentation level
-    let currentIndent = 0
-    // Whether we're inside YAML frontmatter
-    let insideYamlBlock = false
-    // Whether we're inside a YAML multiline string
-    let insideMultilineString = false
-    // Whether we're inside a markdown code block
-    let insideCodeBlock = false
-    // Current position in output array
-    let formattedIndex = 0
-
-    // Add new state variable at top of function
-    let codeBlockBaseIndent: number | null = null
-    let codeBlockOriginalIndent: number | null = null
-
-    const yamlState: YamlState = {
-      baseIndent: null,
-      multilineBaseIndent: null,
-      multilineMinimumIndent: null,
-    }
-
-    let listState: ListState | null = null
-    let currentComponentId = 0 // Unique ID for each component level
-
-    // Add state variable to track the YAML front matter's intended indentation
-    // This will be the indentation we want for YAML blocks regardless of what's in the input
-    let yamlIntendedIndent: number | null = null
-
-    // Stack of parent property contexts
-    const propertyStack: PropertyContext[] = []
-
-    // Keep track of nesting depth for proper indentation
-    let currentPropertyDepth = 0
-
-    // Keep track of the last property we processed
-    let lastPropertyLine = -1
-    let lastPropertyIndent = -1
-    let lastPropertyWasParent = false
-
-    // Add a variable to track property indentation level for multiline strings
-    let multilinePropertyIndent = 0
-
-    // Track whether we're inside an array
-    let insideArray = false
-    // Track array indentation levels
-    let arrayBaseIndent = 0
-    // Track array property indent level
-    let arrayPropertyIndent = 0
-    // Track if we're processing properties inside an array item
-    let insideArrayItem = false
-    // Track the indentation of the current array item start
-    let currentArrayItemIndent = 0
-    // Track the nesting depth of arrays
-    let arrayNestingLevel = 0
-    // Stack to keep track of parent array property indents
-    const arrayPropertyIndentStack: number[] = []
-    // Stack to track array item indentation at each nesting level
-    const arrayItemIndentStack: number[] = []
-
-    // Add a flag to track when we're specifically inside an array property that has array values
-    let insideArrayPropWithArrayValues = false
-    // Keep track of the indentation level of the array property that has array values
-    let arrayPropWithArrayValuesIndent = 0
-
-    // Stack to track array levels - each entry represents a "level" of array items
-    const arrayLevels: ArrayLevelInfo[] = []
-
-    // Process each line
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i]
-      // Leading whitespace count
-      const indent = line.match(exp.INDENT_REGEX)?.[0].length || 0
-      const trimmedContent = line.trim()
-      // Current component's indent level
-      const parentIndent = componentIndentStack[componentIndentStack.length - 1] || 0
-
-      /**
-       * Return empty lines without indentation if not formatting on-type.
-       * We check that `isFormatOnType === false` since this would remove indentation
-       * for the current line the user is editing.
-       */
-      if (trimmedContent === '' && !isFormatOnType) {
-        formattedLines[formattedIndex++] = ''
-        continue
-      }
-
-      // Handle code block markers (``` or ~~~)
-      if (exp.CODE_BLOCK_REGEX.test(trimmedContent)) {
-        insideCodeBlock = !insideCodeBlock
-        if (insideCodeBlock) {
-          codeBlockBaseIndent = parentIndent
-          // Store first line's original indent as reference
-          codeBlockOriginalIndent = indent
-          formattedLines[formattedIndex++] = getIndent(parentIndent) + trimmedContent
-        }
-        else {
-          formattedLines[formattedIndex++] = getIndent(codeBlockBaseIndent!) + trimmedContent
-          codeBlockBaseIndent = null
-          codeBlockOriginalIndent = null
-        }
-        continue
+function getNormalizedColonCounts(structure: MdcStructure, mode: 'depth' | 'uniform'): Map<MdcComponentNode, number> | null {
+  if (structure.unmatchedClosings.length > 0) {
+    return null
+  }
+  const colonCounts = new Map<MdcComponentNode, number>()
+  let isBalanced = true
+
+  /**
+   * Assigns the colon count of the components within the nodes, slots keep the depth of their component.
+   */
+  function assign(nodes: MdcNode[], depth: number) {
+    for (const node of nodes) {
+      if (node.type === 'component') {
+        isBalanced = isBalanced && node.closingRange !== null
+        colonCounts.set(node, mode === 'depth' ? depth + 2 : 2)
+        assign(node.children, depth + 1)
       }
-
-      // Handle code block content
-      if (insideCodeBlock && codeBlockBaseIndent !== null) {
-        if (trimmedContent === '' && !isFormatOnType) {
-          formattedLines[formattedIndex++] = ''
-          continue
-        }
-
-        // Calculate relative indentation from original position
-        const originalOffset = indent - (codeBlockOriginalIndent || 0)
-        // Add this offset to the required base indentation
-        const finalIndent = codeBlockBaseIndent + originalOffset
-        formattedLines[formattedIndex++] = getIndent(finalIndent) + trimmedContent
-        continue
+      else if (node.type === 'slot') {
+        assign(node.children, depth)
       }
+    }
+  }
 
-      // Handle YAML frontmatter markers
-      if (trimmedContent === '---') {
-        insideYamlBlock = !insideYamlBlock
-        insideMultilineString = false
-        yamlState.multilineBaseIndent = null
-        yamlState.multilineMinimumIndent = null
+  assign(structure.children, 0)
+  return isBalanced ? colonCounts : null
+}
 
-        yamlState.baseIndent = insideYamlBlock ? indent : null
+/**
+ * Returns the trimmed content of a line, with its attribute lists normalized when enabled.
+ */
+function formatInlineContent(context: FormatContext, trimmedContent: string, isHeading = false): string {
+  return context.normalizeAttributes ? normalizeAttributeLists(trimmedContent, isHeading) : trimmedContent
+}
 
-        // Reset property tracking when entering/exiting YAML blocks
-        if (!insideYamlBlock) {
-          propertyStack.length = 0
-        }
+/**
+ * Returns whether a trimmed line is paragraph text that can be re-flowed: not a list item, a table row or another block.
+ */
+function isProseLine(trimmedContent: string): boolean {
+  return trimmedContent !== ''
+    && !exp.UNORDERED_LIST_REGEX.test(trimmedContent)
+    && !exp.ORDERED_LIST_REGEX.test(trimmedContent)
+    && !exp.NON_PROSE_LINE_REGEX.test(trimmedContent)
+    && !exp.TABLE_CELL_SEPARATOR_REGEX.test(trimmedContent)
+}
 
-        // But also track the intended indentation as the parent component's indent
-        if (insideYamlBlock) {
-          yamlIntendedIndent = parentIndent
-        }
-        else {
-          yamlIntendedIndent = null
-        }
+/**
+ * Returns the two trailing spaces of a line ending with a hard line break when the next line continues its text,
+ * or an empty string, as the line is trimmed.
+ *
+ * @param lines - The original lines.
+ * @param line - The line that may end with a hard line break.
+ * @param endLine - The last line of the container.
+ * @param nextNode - The next node of the container, which does not continue the text.
+ */
+function getHardLineBreak(lines: string[], line: number, endLine: number, nextNode: MdcNode | undefined): string {
+  const continues = line < endLine && nextNode?.range.startLine !== line + 1 && isProseLine(lines[line + 1].trim())
+  return continues && lines[line].endsWith('  ') ? '  ' : ''
+}
 
-        // Reset property tracking
-        lastPropertyLine = -1
-        lastPropertyIndent = -1
-        lastPropertyWasParent = false
+/**
+ * Returns whether a YAML line is nested in a frame by its original indentation.
+ * Array items also keep the nesting of the first item, e.g. `- item` following `items:` with the same indent.
+ */
+function isNestedInFrame(frame: YamlFrame, indent: number, isArrayItem: boolean): boolean {
+  return indent > frame.indent || (isArrayItem && frame.kind !== 'item' && frame.firstChildIndent === indent)
+}
 
-        formattedLines[formattedIndex++] = getIndent(parentIndent) + '---'
-        continue
-      }
+/**
+ * Formats the content lines of a YAML block, nesting each property and array item by the
+ * hierarchy of its original indentation rather than the indentation itself.
+ *
+ * @param context - The formatting context.
+ * @param startLine - The first line of the YAML content.
+ * @param endLine - The last line of the YAML content.
+ * @param baseIndent - The formatted indent of the top-level properties.
+ */
+function formatYaml(context: FormatContext, startLine: number, endLine: number, baseIndent: number): void {
+  const { lines, formattedLines, tabSize, isFormatOnType } = context
+  // Open frames, from the outermost to the innermost
+  const frames: YamlFrame[] = []
+  // The frame opened by the previous property or array item
+  let openedFrame: YamlFrame | null = null
+  let multilineString: MultilineString | null = null
+  // The first of consecutive comment lines, the following ones keep their indentation relative to it
+  let firstComment: { indent: number, formattedIndent: number } | null = null
+  // Formatted indent of the last property or array item, continuation lines are nested in it
+  let lastIndent: number | null = null
+
+  for (let i = startLine; i <= endLine; i++) {
+    const line = lines[i]
+    const indent = getLineIndent(line)
+    const trimmedContent = line.trim()
+
+    if (trimmedContent === '') {
+      // Keep the indentation of the line being edited when formatting on type
+      formattedLines[i] = isFormatOnType ? getIndent(indent) : ''
+      continue
+    }
 
-      // Handle component opening tags (::component-name)
-      if (exp.COMPONENT_START_REGEX.test(line)) {
-        formattedLines[formattedIndex++] = getIndent(currentIndent) + trimmedContent
-        // Save current indent level for nested components
-        componentIndentStack.push(currentIndent)
-        // Increase indent for component content
-        currentIndent += tabSize
-        currentComponentId++ // New component level
-        listState = null // Reset list state for new component
+    if (multilineString) {
+      if (indent > multilineString.propertyIndent) {
+        if (multilineString.baseIndent === null) {
+          multilineString.baseIndent = indent
+        }
+        const relativeIndent = Math.max(0, indent - multilineString.baseIndent)
+        formattedLines[i] = getIndent(multilineString.contentIndent + relativeIndent) + line.slice(indent)
         continue
       }
+      multilineString = null
+    }
 
-      // Handle component closing tags (::)
-      if (exp.COMPONENT_END_REGEX.test(line)) {
-        // Restore previous indent level
-        currentIndent = componentIndentStack.pop() || 0
-        formattedLines[formattedIndex++] = getIndent(currentIndent) + trimmedContent
-        listState = null // Reset list state when leaving component
-        continue
+    // Comments are placed in the innermost frame containing them, without closing any frame
+    if (isYamlComment(trimmedContent)) {
+      if (!firstComment) {
+        let formattedIndent = baseIndent
+        for (let j = frames.length - 1; j >= 0; j--) {
+          if (indent > frames[j].indent) {
+            formattedIndent = frames[j].childIndent
+            break
+          }
+        }
+        firstComment = { indent, formattedIndent }
       }
+      formattedLines[i] = getIndent(firstComment.formattedIndent + Math.max(0, indent - firstComment.indent)) + trimmedContent
+      continue
+    }
+    firstComment = null
 
-      // Process YAML block content
-      if (insideYamlBlock) {
-        if (trimmedContent) {
-          // Check if we're exiting a multiline string
-          if (insideMultilineString && indent <= yamlState.multilineBaseIndent! && isPropertyLine(trimmedContent)) {
-            insideMultilineString = false
-            yamlState.multilineBaseIndent = null
-            yamlState.multilineMinimumIndent = null
-            // Continue processing this line as a normal property
-          }
+    const isArrayItem = exp.ARRAY_ITEM_REGEX.test(trimmedContent)
 
-          // Handle array items first (higher priority than property lines)
-          if (exp.ARRAY_ITEM_REGEX.test(trimmedContent)) {
-            // Check if this array item is a direct child of an array-prop parent
-            const isDirectChildOfArrayProp = insideArrayPropWithArrayValues
-              && indent > arrayPropWithArrayValuesIndent
-
-            // Check if this is a sibling array item (same level as previous items)
-            let isSiblingArrayItem = false
-            let siblingLevel: ArrayLevelInfo | undefined
-
-            // Look through our tracked array levels to see if this matches an existing level
-            for (let j = 0; j < arrayLevels.length; j++) {
-              const level = arrayLevels[j]
-              // If indents match exactly, we're at the same level
-              if (indent === level.indent) {
-                isSiblingArrayItem = true
-                siblingLevel = level
-                break
-              }
-            }
-
-            // If this is the first array item, set up array state
-            if (!insideArray) {
-              insideArray = true
-              arrayBaseIndent = indent
-              // Array item indent is one level deeper than the property
-              arrayPropertyIndent = yamlIntendedIndent! + (currentPropertyDepth * tabSize)
-              arrayNestingLevel = 0
-              arrayPropertyIndentStack.length = 0
-              arrayItemIndentStack.length = 0
-
-              // Initialize array level tracking
-              arrayLevels.length = 0
-              // Add the root level
-              arrayLevels.push({
-                level: 0,
-                indent: indent,
-                itemIndent: arrayPropertyIndent + tabSize,
-              })
-            }
-            else {
-              // Handle sibling array items differently from nested items
-              if (isSiblingArrayItem && siblingLevel) {
-                // Use the stored indentation for this level
-                // This ensures siblings stay at the same level rather than nesting
-                arrayPropertyIndent = siblingLevel.itemIndent - tabSize
-                arrayNestingLevel = siblingLevel.level
-              }
-              else {
-                // Check if this is a new nesting level by comparing to current indent
-                if (arrayItemIndentStack.length > 0) {
-                  const lastArrayItemIndent = arrayItemIndentStack[arrayItemIndentStack.length - 1]
-
-                  // If indent is greater than last array item, it's a new nesting level
-                  if (indent > lastArrayItemIndent) {
-                    arrayNestingLevel++
-                    arrayPropertyIndentStack.push(arrayPropertyIndent)
-                    // The parent array item becomes the new property parent
-                    arrayPropertyIndent = currentArrayItemIndent
-
-                    // Track this new level
-                    arrayLevels.push({
-                      level: arrayNestingLevel,
-                      indent: indent,
-                      itemIndent: currentArrayItemIndent + tabSize,
-                    })
-                  }
-                  // If indent is less than a previous level, we're going back up in nesting
-                  else if (indent < lastArrayItemIndent) {
-                    // First check if we have a tracked level that matches this indent exactly
-                    let foundMatchingLevel = false
-                    for (let j = 0; j < arrayLevels.length; j++) {
-                      if (arrayLevels[j].indent === indent) {
-                        // Found an exact match, use that level's information
-                        arrayNestingLevel = arrayLevels[j].level
-                        arrayPropertyIndent = arrayLevels[j].itemIndent - tabSize
-                        foundMatchingLevel = true
-                        break
-                      }
-                    }
-
-                    // If we didn't find a matching level, revert through the stack
-                    if (!foundMatchingLevel) {
-                      while (arrayItemIndentStack.length > 0
-                        && indent < arrayItemIndentStack[arrayItemIndentStack.length - 1]) {
-                        arrayItemIndentStack.pop()
-                        arrayNestingLevel--
-                      }
-
-                      // Restore the parent property indent from the stack
-                      if (arrayPropertyIndentStack.length > 0) {
-                        arrayPropertyIndent = arrayPropertyIndentStack.pop()!
-                      }
-                    }
-                  }
-                }
-              }
-            }
-
-            // Calculate intended indentation based on property depth and array nesting
-            let finalIndent
-
-            // Special case for array items that are children of an array property
-            if (isDirectChildOfArrayProp) {
-              // Use the array prop's indent level plus one tab size - matches expected output
-              finalIndent = arrayPropWithArrayValuesIndent + tabSize
-            }
-            else {
-              // Normal case for array items
-              finalIndent = arrayPropertyIndent + tabSize + (arrayNestingLevel * tabSize)
-            }
-
-            // Mark that we're inside an array item and track its indentation
-            insideArrayItem = true
-            currentArrayItemIndent = finalIndent
-
-            // Store this array item's indent for future comparison
-            if (!arrayItemIndentStack.includes(indent)) {
-              arrayItemIndentStack.push(indent)
-            }
-
-            // Reset property state within array items
-            lastPropertyLine = -1
-            lastPropertyIndent = -1
-            lastPropertyWasParent = false
-
-            formattedLines[formattedIndex++] = getIndent(finalIndent) + trimmedContent
-            continue
-          }
-          // If we have a property line inside an array item, handle it specially
-          else if (insideArrayItem && isPropertyLine(trimmedContent) && !insideMultilineString) {
-            // Check if this is a property on the same array item or a new property outside the array
-            // If indent is less than or equal to any array base indent, we've exited all arrays
-            if (indent <= arrayBaseIndent) {
-              insideArray = false
-              insideArrayItem = false
-              arrayNestingLevel = 0
-              arrayPropertyIndentStack.length = 0
-              arrayItemIndentStack.length = 0
-            }
-            else {
-              // Process as regular property
-              // This is a property inside the current array item
-              // Properties within array items should be indented one level deeper than the item marker
-              const propertyIndent = currentArrayItemIndent + tabSize
-
-              // If this property ends with a colon and the next line has an array item,
-              // it's an array property we need to set up state for its array items
-              const isArrayProp = isArrayProperty(trimmedContent, lines, i)
-
-              // Specific detection for array properties that have array values
-              const isArrayPropWithArrayValues = isArrayProp
-
-              if (isArrayProp) {
-                // This becomes a new array property parent
-                // Track the old array property indent in case we need to restore it
-                arrayPropertyIndentStack.push(arrayPropertyIndent)
-                arrayPropertyIndent = propertyIndent
-
-                // Reset nesting level for this new array context
-                arrayNestingLevel = 0
-
-                // Set flag for array properties with array values (the specific case we need to fix)
-                if (isArrayPropWithArrayValues) {
-                  insideArrayPropWithArrayValues = true
-                  arrayPropWithArrayValuesIndent = propertyIndent
-                }
-              }
-
-              formattedLines[formattedIndex++] = getIndent(propertyIndent) + trimmedContent
-              continue
-            }
-          }
-          // If not an array item or array item property, we must be outside of the array prop context
-          else if (!exp.ARRAY_ITEM_REGEX.test(trimmedContent)
-            && (!isPropertyLine(trimmedContent) || !insideArrayItem)) {
-            insideArrayPropWithArrayValues = false
-          }
+    // Continuation lines, e.g. of flow arrays, are nested in the last property
+    if (!isArrayItem && !isPropertyLine(trimmedContent)) {
+      formattedLines[i] = getIndent(lastIndent === null ? baseIndent : lastIndent + tabSize) + trimmedContent
+      continue
+    }
 
-          // Handle YAML comment lines specially
-          if (!insideMultilineString && isYamlComment(trimmedContent)) {
-            // First see if this is a child of a parent property
-            const isChildOfParent = lastPropertyIndent !== -1
-              && lastPropertyWasParent
-              && indent > lastPropertyIndent
-
-            // Calculate the appropriate indentation level
-            let finalIndent
-
-            if (isChildOfParent) {
-              // If it's a child of a parent property, indent it at the appropriate level
-              finalIndent = yamlIntendedIndent! + (currentPropertyDepth * tabSize)
-
-              // If it's at a deeper level than the parent, add additional indentation
-              if (indent > lastPropertyIndent) {
-                finalIndent += tabSize
-              }
-            }
-            else {
-              // For top-level comments, use the base YAML indent
-              finalIndent = yamlIntendedIndent!
-
-              // If the comment appears to be indented from base level, preserve that indentation
-              if (indent > (yamlState.baseIndent || 0)) {
-                const relativeIndent = indent - (yamlState.baseIndent || 0)
-                finalIndent += relativeIndent
-              }
-            }
-
-            formattedLines[formattedIndex++] = getIndent(finalIndent) + trimmedContent
-            continue
-          }
+    // Find the frames the line is nested in
+    let depth = frames.length
+    while (depth > 0 && !isNestedInFrame(frames[depth - 1], indent, isArrayItem)) {
+      depth--
+    }
 
-          // Process property lines (including multiline string markers)
-          if (!insideMultilineString && isPropertyLine(trimmedContent)) {
-            const currentIndent = indent
-
-            // Extract property name
-            const propertyName = getPropertyName(trimmedContent)
-
-            // Determine if this is a parent property or multiline string start
-            const isParentProp = isEmptyProperty(trimmedContent)
-            const isMultilineStart = exp.MULTILINE_STRING_REGEX.test(trimmedContent)
-
-            // Check different forms of array properties
-            const isInlineArray = exp.INLINE_ARRAY_REGEX.test(trimmedContent)
-            const isFlowArrayStart = exp.FLOW_ARRAY_START_REGEX.test(trimmedContent)
-            const isBlockArrayStart = isArrayProperty(trimmedContent, lines, i)
-
-            // Check if it's a child of a parent property
-            const sameIndentAsPrevious = currentIndent === lastPropertyIndent
-            const isChildOfParent = sameIndentAsPrevious && lastPropertyWasParent && lastPropertyLine >= 0
-
-            // Create an effective indent that treats children of parent props as if they were actually indented one level deeper
-            const effectiveIndent = isChildOfParent ? currentIndent + 1 : currentIndent
-
-            // Manage property stack, remove properties at same or deeper levels
-            while (propertyStack.length > 0) {
-              const lastProp = propertyStack[propertyStack.length - 1]
-              if (lastProp.indent === effectiveIndent) {
-                propertyStack.pop()
-                break
-              }
-              else if (lastProp.indent > effectiveIndent) {
-                propertyStack.pop()
-              }
-              else {
-                break
-              }
-            }
-
-            // Calculate property depth based on remaining stack
-            currentPropertyDepth = propertyStack.length
-
-            // Calculate indentation level
-            const finalIndent = yamlIntendedIndent! + (currentPropertyDepth * tabSize)
-
-            // Add this property to the stack if it's a parent property or array property
-            // Block arrays and parent properties need special indent handling for their children
-            if (isParentProp || isBlockArrayStart) {
-              propertyStack.push({
-                name: propertyName,
-                indent: effectiveIndent,
-                isParent: true,
-                parentDepth: currentPropertyDepth,
-              })
-            }
-
-            // Store property context for the next line
-            lastPropertyLine = i
-            lastPropertyIndent = currentIndent
-            lastPropertyWasParent = isParentProp || isBlockArrayStart
-
-            // If this is an array property, set up array state
-            if (isBlockArrayStart) {
-              // Prepare for block array items (dash notation) on subsequent lines
-              arrayPropertyIndent = finalIndent
-            }
-            else if (isFlowArrayStart) {
-              // Track that we're in a flow-style array that might continue to next lines
-              arrayPropertyIndent = finalIndent
-            }
-            else if (isInlineArray) {
-              // For inline arrays like "prop: []", no special handling needed besides proper indentation
-              // The finalIndent already gives us the right position
-            }
-
-            // Now handle multiline string start if needed
-            if (isMultilineStart) {
-              insideMultilineString = true
-              yamlState.multilineBaseIndent = indent
-              multilinePropertyIndent = finalIndent
-            }
-
-            // Output the property line with correct indentation
-            formattedLines[formattedIndex++] = getIndent(finalIndent) + trimmedContent
-            continue
-          }
+    /**
+     * A line directly following a property without a value is nested in it when it has the same indent,
+     * or would otherwise be placed at the same level. Properties following an array item property,
+     * e.g. `name:` after `- env:`, belong to the array item instead.
+     */
+    if (openedFrame && depth < frames.length && (openedFrame.kind === 'property' || (openedFrame.kind === 'itemProperty' && isArrayItem))) {
+      const siblingIndent = depth > 0 ? frames[depth - 1].childIndent : baseIndent
+      if (indent === openedFrame.indent || siblingIndent >= openedFrame.childIndent - tabSize) {
+        depth = frames.length
+      }
+    }
+    frames.length = depth
 
-          // Handle content within multiline strings
-          if (insideMultilineString && yamlState.multilineBaseIndent !== null) {
-            // Base indentation for content is one level deeper than the multiline property
-            const baseContentIndent = multilinePropertyIndent + tabSize
+    const parent = frames[frames.length - 1]
+    const formattedIndent = parent ? parent.childIndent : baseIndent
+    if (parent && parent.firstChildIndent === null) {
+      parent.firstChildIndent = indent
+    }
+    formattedLines[i] = getIndent(formattedIndent) + trimmedContent
+    lastIndent = formattedIndent
+    openedFrame = null
+
+    // Open the frames of the lines nested in this one
+    let property = trimmedContent
+    let propertyIndent: number = indent
+    let formattedPropertyIndent = formattedIndent
+    if (isArrayItem) {
+      property = trimmedContent.slice(1).trimStart()
+      const markerWidth = trimmedContent.length - property.length
+      propertyIndent += markerWidth
+      formattedPropertyIndent += markerWidth
+      openedFrame = { kind: 'item', indent, childIndent: formattedPropertyIndent, firstChildIndent: null }
+      frames.push(openedFrame)
+    }
 
-            // Calculate relative indentation to preserve internal structure
-            const relativeIndent = indent - yamlState.multilineBaseIndent
-            const contentIndent = baseContentIndent + (relativeIndent > 0 ? relativeIndent - tabSize : 0)
+    if (isEmptyProperty(property)) {
+      openedFrame = {
+        kind: isArrayItem ? 'itemProperty' : 'property',
+        indent: propertyIndent,
+        childIndent: formattedPropertyIndent + tabSize,
+        firstChildIndent: null,
+      }
+      frames.push(openedFrame)
+    }
+    else if (exp.MULTILINE_STRING_REGEX.test(property)) {
+      multilineString = { propertyIndent: indent, contentIndent: formattedPropertyIndent + tabSize, baseIndent: null }
+    }
+  }
+}
 
-            formattedLines[formattedIndex++] = getIndent(contentIndent) + line.slice(indent)
-            continue
-          }
+/**
+ * Formats the lines of a component, slot or the document itself, along with its nested nodes.
+ *
+ * @param context - The formatting context.
+ * @param nodes - The nodes within the lines.
+ * @param startLine - The first line to format.
+ * @param endLine - The last line to format.
+ * @param contentIndent - The formatted indent of the content.
+ * @param markerIndent - The formatted indent of nested block component markers.
+ */
+function formatContainer(
+  context: FormatContext,
+  nodes: MdcNode[],
+  startLine: number,
+  endLine: number,
+  contentIndent: number,
+  markerIndent: number,
+): void {
+  const { lines, formattedLines, tabSize, isFormatOnType } = context
+  // Original indents of the open list levels, from the outermost to the innermost
+  const listLevels: number[] = []
+  let nodeIndex = 0
+
+  for (let i = startLine; i <= endLine; i++) {
+    const node = nodes[nodeIndex]
+    if (node && node.range.startLine === i) {
+      nodeIndex++
+      if (node.type === 'component' || node.type === 'slot' || node.type === 'heading') {
+        listLevels.length = 0
+      }
+      formatNode(context, node, contentIndent, markerIndent)
+      i = node.range.endLine
+      continue
+    }
 
-          // Handle non-property content
-          if (!insideMultilineString) {
-            // Calculate the correct indent for non-property content
-            const contentIndent = yamlIntendedIndent! + ((currentPropertyDepth + 1) * tabSize)
-            formattedLines[formattedIndex++] = getIndent(contentIndent) + trimmedContent
-            continue
-          }
+    const line = lines[i]
+    const indent = getLineIndent(line)
+    const trimmedContent = line.trim()
+
+    /**
+     * Return empty lines without indentation if not formatting on-type.
+     * When formatting on-type, the line the user is editing is indented to the content.
+     */
+    if (trimmedContent === '') {
+      formattedLines[i] = isFormatOnType && listLevels.length === 0 ? getIndent(contentIndent) : ''
+      continue
+    }
 
-          // For other content, use intended indentation with relative offsets
-          if (yamlState.baseIndent !== null) {
-            const relativeIndent = indent - yamlState.baseIndent
-            formattedLines[formattedIndex++] = getIndent(yamlIntendedIndent! + Math.max(0, relativeIndent)) + trimmedContent
-            continue
-          }
-        }
-        else {
-          // Indent empty lines at the same level as the previous line
-          if (isFormatOnType) {
-            // If inside a multiline string, ensure minimum indentation
-            if (insideMultilineString) {
-              const finalIndent = Math.max((yamlState.multilineMinimumIndent || 0), indent)
-              formattedLines[formattedIndex++] = getIndent(finalIndent) + ''
-              continue
-            }
-            else {
-              // Otherwise, use the current line's indentation
-              formattedLines[formattedIndex++] = getIndent(indent) + ''
-              continue
-            }
-          }
-        }
+    // Nest list items by the hierarchy of their original indentation
+    if (exp.UNORDERED_LIST_REGEX.test(trimmedContent) || exp.ORDERED_LIST_REGEX.test(trimmedContent)) {
+      while (listLevels.length > 0 && listLevels[listLevels.length - 1] > indent) {
+        listLevels.pop()
       }
+      if (listLevels.length === 0 || listLevels[listLevels.length - 1] < indent) {
+        listLevels.push(indent)
+      }
+      formattedLines[i] = getIndent(contentIndent + (listLevels.length - 1) * tabSize) + formatInlineContent(context, trimmedContent)
+      continue
+    }
 
-      // Handle markdown lists
-      if (exp.UNORDERED_LIST_REGEX.test(trimmedContent) || exp.ORDERED_LIST_REGEX.test(trimmedContent) || exp.TASK_LIST_REGEX.test(trimmedContent)) {
-        // Reset list state if we're in a different component context
-        if (!listState || listState.componentId !== currentComponentId) {
-          listState = {
-            componentLevel: parentIndent,
-            baseIndent: indent,
-            nestingLevels: [indent],
-            componentId: currentComponentId,
-          }
-        }
-        else if (indent <= listState.baseIndent) {
-          // Reset nesting levels for new root-level item in same component
-          listState.baseIndent = indent
-          listState.nestingLevels = [indent]
-        }
-        else if (!listState.nestingLevels.includes(indent)) {
-          listState.nestingLevels.push(indent)
-          listState.nestingLevels.sort((a, b) => a - b)
-        }
-
-        const nestLevel = listState.nestingLevels.indexOf(indent)
-        const finalIndent = listState.componentLevel + (nestLevel * tabSize)
+    listLevels.length = 0
 
-        formattedLines[formattedIndex++] = getIndent(finalIndent) + trimmedContent
-        continue
+    // Align pipe tables, the rows continue until an empty line, a line without pipes or a nested node
+    if (context.alignTables && trimmedContent.includes('|')) {
+      let tableEndLine = i
+      while (tableEndLine < endLine && node?.range.startLine !== tableEndLine + 1 && lines[tableEndLine + 1].includes('|')) {
+        tableEndLine++
       }
-      else if (!trimmedContent && listState) {
-        formattedLines[formattedIndex++] = ''
+      const table = tableEndLine > i ? alignTable(lines.slice(i, tableEndLine + 1).map(row => formatInlineContent(context, row.trim()))) : null
+      if (table) {
+        table.forEach((row, index) => {
+          formattedLines[i + index] = getIndent(contentIndent) + row
+        })
+        i = tableEndLine
         continue
       }
-      else {
-        listState = null
-      }
+    }
 
-      formattedLines[formattedIndex++] = getIndent(parentIndent) + trimmedContent
+    // Re-flow paragraphs, the lines continue until a line that is not paragraph text, a hard line break or a nested node
+    if (context.proseWrap !== 'preserve' && isProseLine(trimmedContent)) {
+      let paragraphEndLine = i
+      while (
+        paragraphEndLine < endLine
+        && node?.range.startLine !== paragraphEndLine + 1
+        && !exp.HARD_LINE_BREAK_REGEX.test(lines[paragraphEndLine])
+        && isProseLine(lines[paragraphEndLine + 1].trim())
+      ) {
+        paragraphEndLine++
+      }
+      const text = formatInlineContent(context, lines.slice(i, paragraphEndLine + 1).map(paragraphLine => paragraphLine.trim()).join(' '))
+      const paragraphLines = context.proseWrap === 'always' ? wrapProse(text, context.printWidth - contentIndent) : [text]
+      formattedLines[i] = paragraphLines.map(paragraphLine => getIndent(contentIndent) + paragraphLine).join('\n') + getHardLineBreak(lines, paragraphEndLine, endLine, node)
+      formattedLines.fill(null, i + 1, paragraphEndLine + 1)
+      i = paragraphEndLine
+      continue
     }
 
-    formattedLines.length = formattedIndex
+    formattedLines[i] = getIndent(contentIndent) + formatInlineContent(context, trimmedContent) + getHardLineBreak(lines, i, endLine, node)
+  }
+}
 
-    // Files should end with a single newline character
-    if (formattedLines[formattedLines.length - 1] !== '') {
-      formattedLines.push('')
+/**
+ * Formats the lines of a node.
+ *
+ * @param context - The formatting context.
+ * @param node - The node to format.
+ * @param contentIndent - The formatted indent of the content containing the node.
+ * @param markerIndent - The formatted indent of block component markers within that content.
+ */
+function formatNode(context: FormatContext, node: MdcNode, contentIndent: number, markerIndent: number): void {
+  const { lines, formattedLines, tabSize, isFormatOnType } = context
+  const { startLine, endLine } = node.range
+
+  switch (node.type) {
+    case 'component': {
+      const colonCount = context.colonCounts?.get(node)
+      const openingMarker = formatInlineContent(context, lines[startLine].trim())
+      // The component content is indented to its markers, nested component markers one level deeper
+      formattedLines[startLine] = getIndent(markerIndent) + (colonCount ? ':'.repeat(colonCount) + openingMarker.slice(node.colonCount) : openingMarker)
+      formatContainer(context, node.children, startLine + 1, node.closingRange ? endLine - 1 : endLine, markerIndent, markerIndent + tabSize)
+      if (node.closingRange) {
+        formattedLines[endLine] = getIndent(markerIndent) + (colonCount ? ':'.repeat(colonCount) : lines[endLine].trim())
+      }
+      break
     }
-    return formattedLines.join('\n')
+    case 'slot':
+      formattedLines[startLine] = getIndent(contentIndent) + lines[startLine].trim()
+      formatContainer(context, node.children, startLine + 1, endLine, contentIndent, markerIndent)
+      break
+    case 'frontmatter':
+    case 'componentData':
+      formattedLines[startLine] = getIndent(contentIndent) + '---'
+      formatYaml(context, startLine + 1, node.closed ? endLine - 1 : endLine, contentIndent)
+      if (node.closed) {
+        formattedLines[endLine] = getIndent(contentIndent) + '---'
+      }
+      break
+    case 'codeFence': {
+      // Code keeps its indentation relative to the opening fence
+      const fenceIndent = getLineIndent(lines[startLine])
+      for (let i = startLine; i <= endLine; i++) {
+        const line = lines[i]
+        const trimmedContent = line.trim()
+        const isFence = i === startLine || (node.closed && i === endLine)
+        const codeIndent = isFence ? contentIndent : contentIndent + Math.max(0, getLineIndent(line) - fenceIndent)
+        formattedLines[i] = trimmedContent === '' && !isFormatOnType ? '' : getIndent(codeIndent) + trimmedContent
+      }
+      break
+    }
+    case 'comment':
+      for (let i = startLine; i <= endLine; i++) {
+        const trimmedContent = lines[i].trim()
+        formattedLines[i] = trimmedContent === '' && !isFormatOnType ? '' : getIndent(contentIndent) + trimmedContent
+      }
+      break
+    case 'heading':
+      formattedLines[startLine] = getIndent(contentIndent) + formatInlineContent(context, lines[startLine].trim(), true)
+      break
   }
+}
 
-  // Keep applying formatting passes until output stabilizes
-  let currentResult = content
-  let previousResult = ''
-  let passes = 0
-  const MAX_PASSES = 10 // Safety limit to prevent infinite loops
+/**
+ * Formats MDC content and returns the formatted text of each original line, so the changes can be mapped back to the original lines.
+ *
+ * @param content - The raw MDC content to format.
+ * @param options - The formatter options.
+ * @returns The formatted text of each original line at its index, with line breaks for split lines, e.g. wrapped paragraphs, and
+ * `null` for lines joined into a previous line. A final empty line follows the original lines when the formatter adds the final newline.
+ */
+export function formatLines(content: string, options: FormatterOptions): (string | null)[] {
+  const {
+    tabSize = 2,
+    isFormatOnType = false,
+    normalizeComponentMarkers = false,
+    normalizeAttributes = false,
+    alignTables = true,
+    proseWrap = 'preserve',
+    printWidth = 80,
+  } = options
+  const lines = content.split('\n')
+  const structure = parseMdcStructure({
+    getLine: (lineNumber: number) => lines[lineNumber],
+    lineCount: lines.length,
+  })
+  const context: FormatContext = {
+    lines,
+    formattedLines: Array.from({ length: lines.length }),
+    tabSize,
+    isFormatOnType,
+    colonCounts: normalizeComponentMarkers ? getNormalizedColonCounts(structure, normalizeComponentMarkers) : null,
+    normalizeAttributes,
+    alignTables: alignTables && !isFormatOnType,
+    proseWrap: isFormatOnType ? 'preserve' : proseWrap,
+    printWidth,
+  }
+
+  formatContainer(context, structure.children, 0, lines.length - 1, 0, 0)
 
-  while (currentResult !== previousResult && passes < MAX_PASSES) {
-    previousResult = currentResult
-    currentResult = singleFormatPass(currentResult)
-    passes++
+  const { formattedLines } = context
+  // Files should end with a single newline character, the last line may be indented when formatting on-type
+  if (formattedLines.filter(line => line !== null).pop()!.trim() !== '') {
+    formattedLines.push('')
   }
+  return formattedLines
+}
 
-  return currentResult
+/**
+ * MDC Formatter: Handles formatting and indentation of MDC files which contain:
+ * - MDC block components
+ * - MDC block component YAML frontmatter, including multiline strings
+ * - Nested MDC block components
+ * - Markdown pipe tables, aligned at the indentation of their enclosing block component
+ *
+ * The document is parsed with `parseMdcStructure` and formatted in a single pass: every line is
+ * indented by its place in the structure rather than its current indentation, so formatting the
+ * output again leaves it unchanged.
+ *
+ * @param {string} content - The raw MDC content to format
+ * @param {FormatterOptions} options - The formatter options
+ * @param {number} options.tabSize - The number of spaces to use for indentation. Defaults to `2`.
+ * @param {boolean} options.isFormatOnType - Whether the formatter is being used for on-type formatting. Defaults to `false`.
+ * @param {false | 'depth' | 'uniform'} options.normalizeComponentMarkers - How to rewrite the colons of block component markers. Defaults to `false`.
+ * @param {boolean} options.normalizeAttributes - Whether to rewrite attribute lists in a canonical form. Defaults to `false`.
+ * @param {boolean} options.alignTables - Whether to align pipe tables. Defaults to `true`.
+ * @param {'always' | 'never' | 'preserve'} options.proseWrap - How to re-flow paragraph text. Defaults to `'preserve'`.
+ * @param {number} options.printWidth - The maximum line width of wrapped paragraphs. Defaults to `80`.
+ */
+export const formatter = (content: string, options: FormatterOptions): string => {
+  return formatLines(content, options).filter(line => line !== null).join('\n')
 }
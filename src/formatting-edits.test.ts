@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest'
+import { getFormattingEdits, formatRange } from './formatting-edits'
+import { formatter } from './formatter'
+import { applyEdits } from './test-utils'
+
+describe('getFormattingEdits', () => {
+  it('returns no edits for formatted content', () => {
+    expect(getFormattingEdits('::card\nContent\n::\n', { tabSize: 2 })).toEqual([])
+  })
+
+  it('only edits the changed lines, merging consecutive lines', () => {
+    const content = '::outer\n:::inner\n:::\nContent\n\n  ::\n'
+
+    expect(getFormattingEdits(content, { tabSize: 2 })).toEqual([
+      { range: { startLine: 1, startColumn: 0, endLine: 2, endColumn: 3 }, newText: '  :::inner\n  :::' },
+      { range: { startLine: 5, startColumn: 0, endLine: 5, endColumn: 4 }, newText: '::' },
+    ])
+  })
+
+  it('only edits the re-flowed lines when the formatter joins lines', () => {
+    const content = '# Title\n\nFirst\nparagraph\n\n::card\nSecond\nparagraph\n::\n'
+    const edits = getFormattingEdits(content, { tabSize: 2, proseWrap: 'never' })
+
+    expect(edits).toEqual([
+      { range: { startLine: 2, startColumn: 0, endLine: 3, endColumn: 9 }, newText: 'First paragraph' },
+      { range: { startLine: 6, startColumn: 0, endLine: 7, endColumn: 9 }, newText: 'Second paragraph' },
+    ])
+    expect(applyEdits(content, edits)).toBe(formatter(content, { tabSize: 2, proseWrap: 'never' }))
+  })
+
+  it('replaces the re-flowed lines when the formatter splits or joins lines', () => {
+    const content = 'A long paragraph\nof text\n\nEnd\n'
+    const wrapped = getFormattingEdits(content, { tabSize: 2, proseWrap: 'always', printWidth: 4 })
+
+    expect(applyEdits(content, wrapped)).toBe('A\nlong\nparagraph\nof\ntext\n\nEnd\n')
+    expect(applyEdits('a\nb\nc\n', getFormattingEdits('a\nb\nc\n', { tabSize: 2, proseWrap: 'never' }))).toBe('a b c\n')
+  })
+
+  it('adds the final newline', () => {
+    const content = '::card\nContent\n::'
+    const edits = getFormattingEdits(content, { tabSize: 2 })
+
+    expect(edits[edits.length - 1]).toEqual({ range: { startLine: 2, startColumn: 2, endLine: 2, endColumn: 2 }, newText: '\n' })
+    expect(applyEdits(content, edits)).toBe(formatter(content, { tabSize: 2 }))
+  })
+})
+
+describe('formatRange', () => {
+  const content = '::outer\n:::inner\nContent\n:::\n:::other\n:::\n::\n'
+
+  it('only edits the lines within the range, indented relative to the enclosing components', () => {
+    const edits = formatRange(content, { startLine: 4, startColumn: 0, endLine: 4, endColumn: 8 }, { tabSize: 2 })
+
+    expect(edits).toEqual([
+      { range: { startLine: 4, startColumn: 0, endLine: 4, endColumn: 8 }, newText: '  :::other' },
+    ])
+  })
+
+  it('edits the lines within the range when the formatter joins lines outside of it', () => {
+    const content = 'First\nparagraph\n\n::card\n    Text\n::\n\nLast\nparagraph\n'
+    const edits = formatRange(content, { startLine: 3, startColumn: 0, endLine: 5, endColumn: 2 }, { tabSize: 2, proseWrap: 'never' })
+
+    expect(edits).toEqual([
+      { range: { startLine: 4, startColumn: 0, endLine: 4, endColumn: 8 }, newText: 'Text' },
+    ])
+  })
+
+  it('edits a paragraph the range ends in as a whole', () => {
+    const content = 'Some words that make\nlong\nprose\n'
+    const edits = formatRange(content, { startLine: 0, startColumn: 0, endLine: 0, endColumn: 4 }, { tabSize: 2, proseWrap: 'never' })
+
+    expect(edits).toEqual([
+      { range: { startLine: 0, startColumn: 0, endLine: 2, endColumn: 5 }, newText: 'Some words that make long prose' },
+    ])
+  })
+
+  it.each(['always', 'never', 'preserve'] as const)('formats the selected document like the formatter with %s', (proseWrap) => {
+    const content = 'Intro\n\nSome words that make a long paragraph of prose text here\n  \n  ::card\n  Hello\n  ::\n'
+    const options = { tabSize: 2, proseWrap, printWidth: 20 }
+
+    // Selecting the whole document ends at the start of the last empty line
+    expect(applyEdits(content, formatRange(content, { startLine: 0, startColumn: 0, endLine: 7, endColumn: 0 }, options))).toBe(formatter(content, options))
+    expect(applyEdits(content, formatRange(content, { startLine: 0, startColumn: 0, endLine: 6, endColumn: 4 }, options))).toBe(formatter(content, options))
+  })
+
+  it('does not include a line the selection ends at the start of', () => {
+    const edits = formatRange(content, { startLine: 1, startColumn: 0, endLine: 4, endColumn: 0 }, { tabSize: 2 })
+
+    expect(edits).toEqual([
+      { range: { startLine: 1, startColumn: 0, endLine: 3, endColumn: 3 }, newText: '  :::inner\n  Content\n  :::' },
+    ])
+  })
+})
@@ -0,0 +1,115 @@
+import type { Range } from './find-matching-brackets'
+import { formatLines, type FormatterOptions } from './formatter'
+
+/**
+ * Represents a replacement of a range of the document.
+ */
+export interface MdcTextEdit {
+  /** Range of the original text to replace. */
+  range: Range
+  /** The replacement text. */
+  newText: string
+}
+
+/**
+ * Creates an edit replacing the original lines `start` through `end` with the given lines.
+ */
+function createLinesEdit(originalLines: string[], start: number, end: number, newLines: string[]): MdcTextEdit {
+  return {
+    range: {
+      startLine: start,
+      startColumn: 0,
+      endLine: end,
+      endColumn: originalLines[end].length,
+    },
+    newText: newLines.join('\n'),
+  }
+}
+
+/**
+ * Computes the line edits turning the original content into the formatted content,
+ * optionally limited to the given lines.
+ *
+ * @param content - The original content.
+ * @param options - The formatter options.
+ * @param startLine - The first zero-based line that may be edited.
+ * @param endLine - The last zero-based line that may be edited.
+ */
+function computeEdits(content: string, options: FormatterOptions, startLine: number, endLine: number): MdcTextEdit[] {
+  const originalLines = content.split('\n')
+  const formattedLines = formatLines(content, options)
+  const edits: MdcTextEdit[] = []
+  const lastOriginalLine = originalLines.length - 1
+
+  // Each line is replaced along with the following lines joined into it, e.g. a re-flowed paragraph,
+  // so edits never depend on each other, and consecutive changed lines are merged into one edit
+  let run: { start: number, end: number } | null = null
+  const flush = () => {
+    if (run) {
+      const newLines = formattedLines.slice(run.start, run.end + 1).filter(line => line !== null)
+      edits.push(createLinesEdit(originalLines, run.start, run.end, newLines))
+      run = null
+    }
+  }
+  for (let line = 0; line <= lastOriginalLine; line++) {
+    let unitEnd = line
+    while (unitEnd < lastOriginalLine && formattedLines[unitEnd + 1] === null) {
+      unitEnd++
+    }
+    const changed = unitEnd > line || originalLines[line] !== formattedLines[line]
+    // Only edit the lines touched by the requested lines
+    if (changed && unitEnd >= startLine && line <= endLine) {
+      if (run && run.end === line - 1) {
+        run.end = unitEnd
+      }
+      else {
+        flush()
+        run = { start: line, end: unitEnd }
+      }
+    }
+    else {
+      flush()
+    }
+    line = unitEnd
+  }
+  flush()
+
+  // The formatter adds a final newline to files missing one
+  if (formattedLines.length > originalLines.length && endLine >= lastOriginalLine) {
+    const lastLineLength = originalLines[lastOriginalLine].length
+    edits.push({
+      range: { startLine: lastOriginalLine, startColumn: lastLineLength, endLine: lastOriginalLine, endColumn: lastLineLength },
+      newText: '\n',
+    })
+  }
+  return edits
+}
+
+/**
+ * Returns the minimal line edits to format a whole MDC document, instead of replacing its full content.
+ * Applying only the changed lines keeps the cursor position and decorations, and makes undo fine-grained.
+ *
+ * @param {string} content - The raw MDC content to format.
+ * @param {FormatterOptions} options - The formatter options.
+ * @returns {MdcTextEdit[]} - The edits with zero-based ranges, in document order.
+ */
+export function getFormattingEdits(content: string, options: FormatterOptions = {}): MdcTextEdit[] {
+  return computeEdits(content, options, 0, Infinity)
+}
+
+/**
+ * Returns the minimal line edits to format the lines of a range of an MDC document.
+ *
+ * The whole document is formatted so the lines are indented relative to their enclosing block components,
+ * but only edits of the lines touched by the range are returned, along with the paragraph lines re-flowed with them.
+ *
+ * @param {string} content - The raw MDC content to format.
+ * @param {Range} range - The zero-based range to format. Every line it touches is formatted.
+ * @param {FormatterOptions} options - The formatter options.
+ * @returns {MdcTextEdit[]} - The edits with zero-based ranges, in document order.
+ */
+export function formatRange(content: string, range: Range, options: FormatterOptions = {}): MdcTextEdit[] {
+  // A selection ending at the start of a line does not include that line
+  const endLine = range.endColumn === 0 && range.endLine > range.startLine ? range.endLine - 1 : range.endLine
+  return computeEdits(content, options, range.startLine, endLine)
+}
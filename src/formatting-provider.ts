@@ -0,0 +1,130 @@
+import type { languages, editor } from 'monaco-editor-core'
+import type { FormatterOptions } from './formatter'
+import { getFormattingEdits, formatRange, type MdcTextEdit } from './formatting-edits'
+import { getOnEnterEdits } from './get-on-enter-edits'
+
+/**
+ * Options for the formatting providers. Unset options fall back to the editor's formatting options.
+ */
+export type FormattingProviderOptions = Omit<FormatterOptions, 'isFormatOnType'>
+
+/**
+ * Converts editor-agnostic edits to Monaco text edits.
+ */
+function toTextEdits(edits: MdcTextEdit[]): languages.TextEdit[] {
+  return edits.map(edit => ({
+    // Convert 0-based to 1-based
+    range: {
+      startLineNumber: edit.range.startLine + 1,
+      startColumn: edit.range.startColumn + 1,
+      endLineNumber: edit.range.endLine + 1,
+      endColumn: edit.range.endColumn + 1,
+    },
+    text: edit.newText,
+  }))
+}
+
+/**
+ * Returns the model content with `\n` line endings, as expected by the formatter.
+ */
+function getContent(model: editor.ITextModel): string {
+  return model.getLinesContent().join('\n')
+}
+
+/**
+ * Creates a Monaco document formatting provider that only edits the lines changed by the formatter,
+ * preserving the cursor position and decorations.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createDocumentFormattingEditProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.registerDocumentFormattingEditProvider('mdc', createDocumentFormattingEditProvider({ tabSize: 2 }))
+ * ```
+ *
+ * @param options - The formatter options
+ * @returns A document formatting provider to register for the MDC language
+ */
+export function createDocumentFormattingEditProvider(options: FormattingProviderOptions = {}): languages.DocumentFormattingEditProvider {
+  return {
+    displayName: 'MDC',
+    provideDocumentFormattingEdits: (model, formattingOptions) => toTextEdits(getFormattingEdits(getContent(model), {
+      tabSize: formattingOptions.tabSize,
+      ...options,
+    })),
+  }
+}
+
+/**
+ * Creates a Monaco document range formatting provider that formats the selected lines,
+ * indented relative to their enclosing block components.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createDocumentRangeFormattingEditProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.registerDocumentRangeFormattingEditProvider('mdc', createDocumentRangeFormattingEditProvider({ tabSize: 2 }))
+ * ```
+ *
+ * @param options - The formatter options
+ * @returns A document range formatting provider to register for the MDC language
+ */
+export function createDocumentRangeFormattingEditProvider(options: FormattingProviderOptions = {}): languages.DocumentRangeFormattingEditProvider {
+  return {
+    displayName: 'MDC',
+    provideDocumentRangeFormattingEdits: (model, range, formattingOptions) => toTextEdits(formatRange(
+      getContent(model),
+      // Convert to 0-based
+      {
+        startLine: range.startLineNumber - 1,
+        startColumn: range.startColumn - 1,
+        endLine: range.endLineNumber - 1,
+        endColumn: range.endColumn - 1,
+      },
+      {
+        tabSize: formattingOptions.tabSize,
+        ...options,
+      },
+    )),
+  }
+}
+
+/**
+ * Creates a Monaco on-type formatting provider that completes the line structure when Enter is pressed:
+ * it inserts the matching closing marker after a block component opening marker, continues YAML indentation
+ * inside frontmatter and component YAML blocks, and continues list items.
+ *
+ * Register it along with the `conf` language configuration, whose `onEnterRules` keep a line below the cursor
+ * for the closing marker. Monaco only runs on-type formatting when the `formatOnType` editor option is enabled.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { conf, createOnTypeFormattingEditProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.setLanguageConfiguration('mdc', conf)
+ * monaco.languages.registerOnTypeFormattingEditProvider('mdc', createOnTypeFormattingEditProvider({ tabSize: 2 }))
+ * ```
+ *
+ * @param options - The formatting options
+ * @returns An on-type formatting provider to register for the MDC language
+ */
+export function createOnTypeFormattingEditProvider(options: FormattingProviderOptions = {}): languages.OnTypeFormattingEditProvider {
+  return {
+    autoFormatTriggerCharacters: ['\n'],
+    provideOnTypeFormattingEdits: (model, position, _ch, formattingOptions) => toTextEdits(getOnEnterEdits(
+      {
+        getLine: (lineNumber: number) => model.getLineContent(lineNumber + 1), // Monaco uses 1-based line numbers
+        lineCount: model.getLineCount(),
+      },
+      // Convert to 0-based
+      { line: position.lineNumber - 1, column: position.column - 1 },
+      {
+        tabSize: formattingOptions.tabSize,
+        ...options,
+      },
+    )),
+  }
+}
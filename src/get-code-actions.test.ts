@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest'
+import { getCodeActions } from './get-code-actions'
+import { createDocument } from './test-utils'
+
+describe('getCodeActions', () => {
+  it('offers to move inline props to the YAML block on the opening marker', () => {
+    const actions = getCodeActions(createDocument('::card{title="Hello"}\nContent\n::'), { line: 0, column: 3 })
+
+    expect(actions.map(action => action.title)).toEqual(['Move props to YAML block'])
+    expect(actions[0].kind).toBe('refactor.rewrite')
+  })
+
+  it('offers to move YAML props inline on the opening marker and in the YAML block', () => {
+    const document = createDocument('::card\n---\ntitle: Hello\n---\nContent\n::')
+
+    expect(getCodeActions(document, { line: 0, column: 0 }).map(action => action.title)).toEqual(['Move props to inline attributes'])
+    expect(getCodeActions(document, { line: 2, column: 4 }).map(action => action.title)).toEqual(['Move props to inline attributes'])
+  })
+
+  it('offers both conversions when the component has inline and YAML props', () => {
+    const actions = getCodeActions(createDocument('::card{icon=i-mdi}\n---\ntitle: Hello\n---\n::'), { line: 0, column: 0 })
+
+    expect(actions.map(action => action.title)).toEqual(['Move props to YAML block', 'Move props to inline attributes'])
+  })
+
+  it('returns no actions in the component content', () => {
+    expect(getCodeActions(createDocument('::card{title="Hello"}\nContent\n::'), { line: 1, column: 0 })).toEqual([])
+    expect(getCodeActions(createDocument('Text'), { line: 0, column: 0 })).toEqual([])
+  })
+})
@@ -0,0 +1,47 @@
+import type { TextDocument, Position } from './find-matching-brackets'
+import type { MdcTextEdit } from './formatting-edits'
+import { parseMdcStructure, getNodePath, type MdcComponentNode } from './parse-mdc-structure'
+import { convertPropsToYaml, convertPropsToInline } from './convert-component-props'
+
+/**
+ * Represents a refactoring of the document at the cursor.
+ */
+export interface MdcCodeAction {
+  /** The title shown in the editor. */
+  title: string
+  /** The code action kind, the same in Monaco and VSCode. */
+  kind: 'refactor.rewrite'
+  /** The edits with zero-based ranges. */
+  edits: MdcTextEdit[]
+}
+
+/**
+ * Returns the code actions available at a position:
+ * - On a block component opening marker, its attribute list props can be moved into its YAML block.
+ * - On a block component opening marker or in its YAML block, the YAML props can be moved into its attribute list.
+ *
+ * @param {TextDocument} document - The text document.
+ * @param {Position} position - The zero-based cursor position.
+ * @returns {MdcCodeAction[]} - The available code actions.
+ */
+export function getCodeActions(document: TextDocument, position: Position): MdcCodeAction[] {
+  const path = getNodePath(parseMdcStructure(document).children, position.line)
+  const innermost = path[path.length - 1]
+  const components = path.filter((node): node is MdcComponentNode => node.type === 'component')
+  const component = components[components.length - 1]
+  if (!component || (component.openingRange.startLine !== position.line && innermost?.type !== 'componentData')) {
+    return []
+  }
+
+  const line = component.openingRange.startLine
+  const actions: MdcCodeAction[] = []
+  const yamlEdits = convertPropsToYaml(document, line)
+  if (yamlEdits.length > 0) {
+    actions.push({ title: 'Move props to YAML block', kind: 'refactor.rewrite', edits: yamlEdits })
+  }
+  const inlineEdits = convertPropsToInline(document, line)
+  if (inlineEdits.length > 0) {
+    actions.push({ title: 'Move props to inline attributes', kind: 'refactor.rewrite', edits: inlineEdits })
+  }
+  return actions
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest'
+import type { MdcComponentRegistry } from './component-registry'
+import { getCompletionItems } from './get-completion-items'
+import { createDocument } from './test-utils'
+
+const registry: MdcComponentRegistry = [
+  {
+    name: 'ProseAlert',
+    description: 'Highlights important information.',
+    props: [
+      { name: 'type', type: 'string', values: ['info', 'warning'], default: 'info', description: 'The alert type.' },
+      { name: 'title', type: 'string' },
+      { name: 'show-icon', type: 'boolean' },
+      { name: 'links', type: 'array' },
+    ],
+    slots: [{ name: 'title', description: 'The alert title.' }, { name: 'default' }],
+  },
+  { name: 'badge', description: 'A small label.' },
+]
+
+describe('getCompletionItems', () => {
+  describe('component names', () => {
+    it('suggests block component names after ::', () => {
+      const items = getCompletionItems(createDocument('Text\n  :::pro'), { line: 1, column: 8 }, registry)
+
+      expect(items.map(item => item.label)).toEqual(['prose-alert', 'badge'])
+      expect(items[0]).toMatchObject({
+        kind: 'component',
+        insertText: 'prose-alert',
+        documentation: 'Highlights important information.',
+        range: { startLine: 1, startColumn: 5, endLine: 1, endColumn: 8 },
+      })
+    })
+
+    it('suggests inline component names after : in line content', () => {
+      const items = getCompletionItems(createDocument('Some text :ba'), { line: 0, column: 13 }, registry)
+
+      expect(items.map(item => item.label)).toEqual(['prose-alert', 'badge'])
+      expect(items[1].range).toEqual({ startLine: 0, startColumn: 11, endLine: 0, endColumn: 13 })
+    })
+
+    it('does not suggest inline components within words, URLs or attribute lists', () => {
+      expect(getCompletionItems(createDocument('https:'), { line: 0, column: 6 }, registry)).toEqual([])
+      expect(getCompletionItems(createDocument(':icon{name="mdi:'), { line: 0, column: 16 }, registry)).toEqual([])
+    })
+
+    it('does not suggest components inside code fences or YAML blocks', () => {
+      const doc = createDocument('```md\n::\n```\n::card\n---\n:\n---\n::')
+
+      expect(getCompletionItems(doc, { line: 1, column: 2 }, registry)).toEqual([])
+      expect(getCompletionItems(doc, { line: 5, column: 1 }, registry)).toEqual([])
+    })
+  })
+
+  describe('slot names', () => {
+    it('suggests the slots of the innermost component after #', () => {
+      const doc = createDocument('::prose-alert\n#t\n::')
+      const items = getCompletionItems(doc, { line: 1, column: 2 }, registry)
+
+      expect(items.map(item => item.label)).toEqual(['title', 'default'])
+      expect(items[0]).toMatchObject({
+        kind: 'slot',
+        detail: '#title slot of prose-alert',
+        range: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 2 },
+      })
+    })
+
+    it('does not suggest slots outside of components or for unknown components', () => {
+      expect(getCompletionItems(createDocument('#'), { line: 0, column: 1 }, registry)).toEqual([])
+      expect(getCompletionItems(createDocument('::unknown\n#\n::'), { line: 1, column: 1 }, registry)).toEqual([])
+      expect(getCompletionItems(createDocument('::prose-alert\n::badge\n#\n::\n::'), { line: 2, column: 1 }, registry)).toEqual([])
+    })
+  })
+
+  describe('props in attribute lists', () => {
+    it('suggests the props of the component that are not already set', () => {
+      const doc = createDocument('::prose-alert{type="info" ti show-icon}')
+      const items = getCompletionItems(doc, { line: 0, column: 28 }, registry)
+
+      expect(items.map(item => item.label)).toEqual(['title', 'links'])
+      expect(items[0]).toMatchObject({
+        kind: 'prop',
+        insertText: 'title="$1"',
+        isSnippet: true,
+        detail: 'string',
+        range: { startLine: 0, startColumn: 26, endLine: 0, endColumn: 28 },
+      })
+    })
+
+    it('inserts boolean props without a value and documents defaults', () => {
+      const items = getCompletionItems(createDocument('Text :prose-alert{'), { line: 0, column: 18 }, registry)
+
+      expect(items.find(item => item.label === 'show-icon')?.insertText).toBe('show-icon')
+      expect(items.find(item => item.label === 'type')).toMatchObject({
+        detail: '"info" | "warning"',
+        documentation: '`"info" | "warning"` · default: `info`\n\nThe alert type.',
+      })
+    })
+
+    it('suggests enum values, adding quotes when needed', () => {
+      const quoted = getCompletionItems(createDocument('::prose-alert{type="w'), { line: 0, column: 21 }, registry)
+      const unquoted = getCompletionItems(createDocument('::prose-alert{type='), { line: 0, column: 19 }, registry)
+
+      expect(quoted.map(item => item.insertText)).toEqual(['info', 'warning'])
+      expect(quoted[0]).toMatchObject({ kind: 'value', range: { startLine: 0, startColumn: 20, endLine: 0, endColumn: 21 } })
+      expect(unquoted.map(item => item.insertText)).toEqual(['"info"', '"warning"'])
+    })
+
+    it('does not suggest props within quoted values or for unknown components', () => {
+      expect(getCompletionItems(createDocument('::prose-alert{title="Hello wo'), { line: 0, column: 29 }, registry)).toEqual([])
+      expect(getCompletionItems(createDocument('::unknown{'), { line: 0, column: 10 }, registry)).toEqual([])
+      expect(getCompletionItems(createDocument('[span]{'), { line: 0, column: 7 }, registry)).toEqual([])
+    })
+  })
+
+  describe('props in component YAML blocks', () => {
+    it('suggests top-level props that are not already set', () => {
+      const doc = createDocument('::prose-alert\n---\ntype: info\nlinks:\n  - a\nt\n---\n::')
+      const items = getCompletionItems(doc, { line: 5, column: 1 }, registry)
+
+      expect(items.map(item => item.label)).toEqual(['title', 'show-icon'])
+      expect(items[0]).toMatchObject({ insertText: 'title: $1', range: { startLine: 5, startColumn: 0, endLine: 5, endColumn: 1 } })
+    })
+
+    it('suggests values of enum and boolean props', () => {
+      const doc = createDocument('::prose-alert\n---\ntype: \nshow-icon: t\n---\n::')
+
+      expect(getCompletionItems(doc, { line: 2, column: 6 }, registry).map(item => item.insertText)).toEqual(['info', 'warning'])
+      expect(getCompletionItems(doc, { line: 3, column: 12 }, registry).map(item => item.insertText)).toEqual(['true', 'false'])
+    })
+
+    it('does not suggest props for nested keys or on the delimiter lines', () => {
+      const doc = createDocument('::prose-alert\n---\nlinks:\n  \n---\n::')
+
+      expect(getCompletionItems(doc, { line: 3, column: 2 }, registry)).toEqual([])
+      expect(getCompletionItems(doc, { line: 1, column: 3 }, registry)).toEqual([])
+    })
+  })
+})
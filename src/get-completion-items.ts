@@ -0,0 +1,312 @@
+import type { TextDocument, Position, Range } from './find-matching-brackets'
+import { parseMdcStructure, getNodePath, type MdcComponentNode, type MdcComponentDataNode } from './parse-mdc-structure'
+import {
+  describeProp,
+  describePropType,
+  findComponentDefinition,
+  toKebabCase,
+  type MdcComponentDefinition,
+  type MdcComponentRegistry,
+  type MdcPropDefinition,
+} from './component-registry'
+
+/**
+ * Represents a completion suggestion.
+ */
+export interface MdcCompletionItem {
+  /** The text shown in the suggestion list. */
+  label: string
+  /** What the suggestion completes. */
+  kind: 'component' | 'slot' | 'prop' | 'value'
+  /** The text inserted when the suggestion is accepted. */
+  insertText: string
+  /** Whether `insertText` is a snippet with tab stops, e.g. `title="$1"`. */
+  isSnippet?: boolean
+  /** A short detail shown next to the label. */
+  detail?: string
+  /** Markdown documentation shown for the selected suggestion. */
+  documentation?: string
+  /** Range of the text replaced by the suggestion. */
+  range: Range
+}
+
+/* Matches a block component marker being typed, e.g. "::car" */
+const BLOCK_COMPONENT_PREFIX_REGEX = /^\s*:{2,}([\w-]*)$/
+/* Matches an inline component being typed, e.g. "Some text :bad" */
+const INLINE_COMPONENT_PREFIX_REGEX = /(?:^|[\s([]):([\w-]*)$/
+/* Matches a slot marker being typed, e.g. "#ti" */
+const SLOT_PREFIX_REGEX = /^\s*#([\w-]*)$/
+/* Matches the component name right before an attribute list, e.g. "::alert" in "::alert{" */
+const ATTRIBUTES_COMPONENT_REGEX = /:([\w-]+)$/
+/* Matches an attribute value being typed, e.g. `type="in` */
+const ATTRIBUTE_VALUE_PREFIX_REGEX = /(?:^|\s):?([\w-]+)=(["']?)([^"'\s]*)$/
+/* Matches an attribute key being typed, e.g. "ty" */
+const ATTRIBUTE_KEY_PREFIX_REGEX = /(?:^|\s)([\w-]*)$/
+/* Matches the keys of props set in an attribute list, e.g. "type" and "show-icon" in `type="info" show-icon` */
+const ATTRIBUTE_KEYS_REGEX = /(?:^|\s):?([\w-]+)(?=[=\s]|$)/g
+/* Matches a YAML prop value being typed, e.g. "type: in" */
+const YAML_VALUE_PREFIX_REGEX = /^(\s*)([\w-]+):\s*(["']?)([^"'\s]*)$/
+/* Matches a YAML prop key being typed, e.g. "ty" */
+const YAML_KEY_PREFIX_REGEX = /^(\s*)([\w-]*)$/
+/* Matches a YAML prop key, e.g. "type:" */
+const YAML_KEY_REGEX = /^(\s*):?([\w-]+)\s*:/
+
+/**
+ * Creates the range of a partially typed word ending at the cursor.
+ */
+function createWordRange(position: Position, word: string): Range {
+  return {
+    startLine: position.line,
+    startColumn: position.column - word.length,
+    endLine: position.line,
+    endColumn: position.column,
+  }
+}
+
+/**
+ * Suggests the names of all registered components.
+ */
+function getComponentItems(registry: MdcComponentRegistry, range: Range): MdcCompletionItem[] {
+  return registry.map((component) => {
+    const name = toKebabCase(component.name)
+    return {
+      label: name,
+      kind: 'component',
+      insertText: name,
+      detail: 'MDC component',
+      documentation: component.description,
+      range,
+    }
+  })
+}
+
+/**
+ * Suggests the props of a component that are not already set.
+ *
+ * @param definition - The component definition.
+ * @param existing - The names of the props already set.
+ * @param createInsertText - Creates the snippet inserted for a prop.
+ * @param range - The range of the partially typed prop name.
+ */
+function getPropItems(
+  definition: MdcComponentDefinition,
+  existing: string[],
+  createInsertText: (prop: MdcPropDefinition) => string,
+  range: Range,
+): MdcCompletionItem[] {
+  return (definition.props || [])
+    .filter(prop => !existing.includes(prop.name))
+    .map(prop => ({
+      label: prop.name,
+      kind: 'prop',
+      insertText: createInsertText(prop),
+      isSnippet: true,
+      detail: describePropType(prop),
+      documentation: describeProp(prop),
+      range,
+    }))
+}
+
+/**
+ * Suggests the enum values of a prop, or `true` and `false` for boolean props.
+ *
+ * @param prop - The prop definition.
+ * @param addQuotes - Whether to wrap string values in double quotes.
+ * @param range - The range of the partially typed value.
+ */
+function getValueItems(prop: MdcPropDefinition | undefined, addQuotes: boolean, range: Range): MdcCompletionItem[] {
+  if (!prop) {
+    return []
+  }
+
+  const isBoolean = prop.type === 'boolean'
+  const values = prop.values?.length ? prop.values : isBoolean ? ['true', 'false'] : []
+
+  return values.map(value => ({
+    label: value,
+    kind: 'value',
+    insertText: addQuotes && !isBoolean ? `"${value}"` : value,
+    detail: `${prop.name} value`,
+    range,
+  }))
+}
+
+/**
+ * Provides prop completions inside an inline attribute list, e.g. `::alert{type="info" }`.
+ *
+ * @returns The completion suggestions, or `null` if the position is not inside an attribute list.
+ */
+function getAttributeItems(
+  lineContent: string,
+  position: Position,
+  registry: MdcComponentRegistry,
+): MdcCompletionItem[] | null {
+  const textBefore = lineContent.slice(0, position.column)
+  const braceIndex = textBefore.lastIndexOf('{')
+  if (braceIndex === -1 || textBefore.includes('}', braceIndex)) {
+    return null
+  }
+
+  // Only attribute lists of inline and block components can be completed
+  const componentMatch = textBefore.slice(0, braceIndex).match(ATTRIBUTES_COMPONENT_REGEX)
+  const definition = componentMatch ? findComponentDefinition(registry, componentMatch[1]) : undefined
+  if (!definition) {
+    return []
+  }
+
+  const attributesBefore = textBefore.slice(braceIndex + 1)
+  const closingIndex = lineContent.indexOf('}', position.column)
+  const attributesAfter = lineContent.slice(position.column, closingIndex === -1 ? undefined : closingIndex)
+
+  // Prop values
+  const valueMatch = attributesBefore.match(ATTRIBUTE_VALUE_PREFIX_REGEX)
+  if (valueMatch) {
+    const prop = definition.props?.find(prop => prop.name === valueMatch[1])
+    return getValueItems(prop, !valueMatch[2], createWordRange(position, valueMatch[3]))
+  }
+
+  // Nothing to complete within a quoted value
+  const unquoted = attributesBefore.replace(/"[^"]*"|'[^']*'/g, '')
+  if (/["']/.test(unquoted)) {
+    return []
+  }
+
+  // Prop keys
+  const keyMatch = unquoted.match(ATTRIBUTE_KEY_PREFIX_REGEX)
+  if (!keyMatch) {
+    return []
+  }
+  const existingAttributes = unquoted.slice(0, unquoted.length - keyMatch[1].length) + ' ' + attributesAfter.replace(/"[^"]*"|'[^']*'/g, '')
+  const existing = Array.from(existingAttributes.matchAll(ATTRIBUTE_KEYS_REGEX), match => match[1])
+
+  return getPropItems(
+    definition,
+    existing,
+    prop => prop.type === 'boolean' ? prop.name : `${prop.name}="$1"`,
+    createWordRange(position, keyMatch[1]),
+  )
+}
+
+/**
+ * Provides prop completions inside a component YAML block.
+ */
+function getComponentDataItems(
+  document: TextDocument,
+  position: Position,
+  data: MdcComponentDataNode,
+  component: MdcComponentNode,
+  registry: MdcComponentRegistry,
+): MdcCompletionItem[] {
+  const contentEnd = data.closed ? data.range.endLine - 1 : data.range.endLine
+  const definition = findComponentDefinition(registry, component.name)
+  if (!definition || position.line === data.range.startLine || position.line > contentEnd) {
+    return []
+  }
+
+  // Top-level props share the smallest indentation of the block
+  const keys: { line: number, indent: number, name: string }[] = []
+  for (let lineNumber = data.range.startLine + 1; lineNumber <= contentEnd; lineNumber++) {
+    const keyMatch = document.getLine(lineNumber).match(YAML_KEY_REGEX)
+    if (keyMatch) {
+      keys.push({ line: lineNumber, indent: keyMatch[1].length, name: keyMatch[2] })
+    }
+  }
+  const otherKeys = keys.filter(key => key.line !== position.line)
+  const baseIndent = otherKeys.length > 0 ? Math.min(...otherKeys.map(key => key.indent)) : Infinity
+
+  const textBefore = document.getLine(position.line).slice(0, position.column)
+
+  // Prop values
+  const valueMatch = textBefore.match(YAML_VALUE_PREFIX_REGEX)
+  if (valueMatch && valueMatch[1].length <= baseIndent) {
+    const prop = definition.props?.find(prop => prop.name === valueMatch[2])
+    return getValueItems(prop, false, createWordRange(position, valueMatch[4]))
+  }
+
+  // Prop keys
+  const keyMatch = textBefore.match(YAML_KEY_PREFIX_REGEX)
+  if (keyMatch && keyMatch[1].length <= baseIndent) {
+    const existing = otherKeys.filter(key => key.indent === baseIndent).map(key => key.name)
+    return getPropItems(
+      definition,
+      existing,
+      prop => prop.type === 'object' || prop.type === 'array' ? `${prop.name}:\n  $1` : `${prop.name}: $1`,
+      createWordRange(position, keyMatch[2]),
+    )
+  }
+
+  return []
+}
+
+/**
+ * Provides completion suggestions for MDC component names, slots and props at the given position.
+ *
+ * - Block component names after `::`
+ * - Inline component names after `:` in line content
+ * - Slot names after `#` inside a block component with registered slots
+ * - Prop keys and values inside `{ ... }` attribute lists and component YAML blocks,
+ *   skipping props that are already set
+ *
+ * @param {TextDocument} document - The text document.
+ * @param {Position} position - The zero-based cursor position.
+ * @param {MdcComponentRegistry} registry - The components available to authors.
+ * @returns {MdcCompletionItem[]} - The completion suggestions, or an empty array if there are none.
+ */
+export function getCompletionItems(
+  document: TextDocument,
+  position: Position,
+  registry: MdcComponentRegistry,
+): MdcCompletionItem[] {
+  const lineContent = document.getLine(position.line)
+  const textBefore = lineContent.slice(0, position.column)
+  const path = getNodePath(parseMdcStructure(document).children, position.line)
+  const innermost = path[path.length - 1]
+
+  // Props within the component YAML block
+  if (innermost?.type === 'componentData') {
+    return getComponentDataItems(document, position, innermost, path[path.length - 2] as MdcComponentNode, registry)
+  }
+
+  // Code fences, YAML blocks and comments never contain components
+  if (innermost && innermost.type !== 'component' && innermost.type !== 'slot' && innermost.type !== 'heading') {
+    return []
+  }
+
+  // Props within inline attribute lists
+  const attributeItems = getAttributeItems(lineContent, position, registry)
+  if (attributeItems) {
+    return attributeItems
+  }
+
+  // Block components: ::name
+  const blockMatch = textBefore.match(BLOCK_COMPONENT_PREFIX_REGEX)
+  if (blockMatch) {
+    return getComponentItems(registry, createWordRange(position, blockMatch[1]))
+  }
+
+  // Slots: #name within the innermost component
+  const slotMatch = textBefore.match(SLOT_PREFIX_REGEX)
+  if (slotMatch) {
+    const component = path.filter((node): node is MdcComponentNode => node.type === 'component').pop()
+    const definition = component && component.openingRange.startLine !== position.line
+      ? findComponentDefinition(registry, component.name)
+      : undefined
+
+    return (definition?.slots || []).map(slot => ({
+      label: slot.name,
+      kind: 'slot',
+      insertText: slot.name,
+      detail: `#${slot.name} slot of ${toKebabCase(definition!.name)}`,
+      documentation: slot.description,
+      range: createWordRange(position, slotMatch[1]),
+    }))
+  }
+
+  // Inline components: :name
+  const inlineMatch = textBefore.match(INLINE_COMPONENT_PREFIX_REGEX)
+  if (inlineMatch) {
+    return getComponentItems(registry, createWordRange(position, inlineMatch[1]))
+  }
+
+  return []
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { getDocumentFoldingRanges } from './get-document-folding-ranges'
+import { createDocument } from './test-utils'
+
+describe('getDocumentFoldingRanges', () => {
+  it('folds nested block components', () => {
+    const doc = createDocument(':::outer\n::inner\nContent\n::\n:::')
+
+    expect(getDocumentFoldingRanges(doc)).toEqual([
+      { start: 0, end: 4 },
+      { start: 1, end: 3 },
+    ])
+  })
+
+  it('does not fold unclosed block components', () => {
+    const doc = createDocument('::outer\n::inner\nContent\n::')
+
+    expect(getDocumentFoldingRanges(doc)).toEqual([{ start: 1, end: 3 }])
+  })
+
+  it('folds the frontmatter, component YAML blocks and code fences', () => {
+    const doc = createDocument('---\ntitle: Page\n---\n::card\n---\ntitle: Card\n---\n```ts\nconst a = 1\n```\n::')
+
+    expect(getDocumentFoldingRanges(doc)).toEqual([
+      { start: 0, end: 2, kind: 'imports' },
+      { start: 3, end: 10 },
+      { start: 4, end: 6 },
+      { start: 7, end: 9 },
+    ])
+  })
+
+  it('folds slots up to the next slot or closing marker, without trailing empty lines', () => {
+    const doc = createDocument('::hero\n#title\nTitle\n\n#description\nLine 1\nLine 2\n::')
+
+    expect(getDocumentFoldingRanges(doc)).toEqual([
+      { start: 0, end: 7 },
+      { start: 1, end: 2 },
+      { start: 4, end: 6 },
+    ])
+  })
+
+  it('folds heading sections', () => {
+    const doc = createDocument('# Title\nIntro\n## Section\nText\n\n# Other')
+
+    expect(getDocumentFoldingRanges(doc)).toEqual([
+      { start: 0, end: 3 },
+      { start: 2, end: 3 },
+    ])
+  })
+
+  it('folds multi-line comments and regions', () => {
+    const doc = createDocument('<!-- #region Intro -->\n<!--\nA comment\n-->\n<!-- single -->\n<!-- #endregion -->')
+
+    expect(getDocumentFoldingRanges(doc)).toEqual([
+      { start: 0, end: 5, kind: 'region' },
+      { start: 1, end: 3, kind: 'comment' },
+    ])
+  })
+})
@@ -5,32 +5,9 @@
  * Any changes to the function signature or behavior should be tested and verified in the extension.
  */
 
-/** Represents a text document, providing methods to access its content. */
-interface TextDocument {
-  /**
-   * Retrieves the content of a specific line in the document.
-   * @param lineNumber - The zero-based line number to retrieve.
-   * @returns The content of the specified line.
-   */
-  getLine: (lineNumber: number) => string
-
-  /* The total number of lines in the document. */
-  lineCount: number
-}
-
-/**
- * A block of code that can be folded in an editor.
- *
- * @interface FoldingBlock
- * @property {number} start - The starting line number of the folding block.
- * @property {string} tagName - The tag name associated with the folding block.
- * @property {number} colons - The number of colons in the folding block.
- */
-interface FoldingBlock {
-  start: number
-  tagName: string
-  colons: number
-}
+import type { TextDocument } from './find-matching-brackets'
+import { parseMdcStructure, walkMdcNodes } from './parse-mdc-structure'
+import { getDocumentSymbols, type MdcDocumentSymbol } from './get-document-symbols'
 
 /**
  * A range in a text document that can be folded.
@@ -38,65 +15,94 @@ interface FoldingBlock {
  * @interface FoldingRange
  * @property {number} start - The zero-based line number where the folding starts.
  * @property {number} end - The zero-based line number where the folding ends.
+ * @property {'comment' | 'imports' | 'region'} [kind] - The kind of the folding range, used by "Fold All Comments" and similar commands.
  */
 interface FoldingRange {
   start: number
   end: number
+  kind?: 'comment' | 'imports' | 'region'
 }
 
+/* Matches the start of a folding region, e.g. "<!-- #region name -->" */
+const REGION_START_REGEX = /^\s*<!--\s*#?region\b.*-->/
+/* Matches the end of a folding region, e.g. "<!-- #endregion -->" */
+const REGION_END_REGEX = /^\s*<!--\s*#?endregion\b.*-->/
+
 /**
  * Generates the folding ranges for a given text document. This function is designed to be used with
  * text documents that follow the Monarch or TextMate syntax highlighting conventions.
  *
+ * Folds block components, component YAML blocks, the frontmatter, fenced code blocks, `#slot` sections,
+ * heading sections, multi-line HTML comments and `<!-- #region -->` ... `<!-- #endregion -->` markers.
+ *
  * @param {TextDocument} document - The text document to compute folding ranges for.
  * @param {(lineNumber: number) => string} document.getLine - A function that returns the content of a line given its line number.
  * @param {number} document.lineCount - The total number of lines in the document.
- * @returns {FoldingRange[]} - An array of FoldingRange objects representing the folding regions in the document.
+ * @returns {FoldingRange[]} - An array of FoldingRange objects representing the folding regions in the document, sorted by their start line.
  */
 export const getDocumentFoldingRanges = (document: TextDocument): FoldingRange[] => {
   const ranges: FoldingRange[] = []
-  const stack: FoldingBlock[] = []
-  let insideCodeBlock = false
-
-  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
-    const line = document.getLine(lineNumber).trim()
+  const regionStack: number[] = []
+  const structure = parseMdcStructure(document)
 
-    // Check for code block markers
-    if (/^\s*(?:`{3,}|~{3,})/.test(line)) {
-      insideCodeBlock = !insideCodeBlock
-      continue
+  /** Adds a range ending at the last non-empty line, as long as it spans multiple lines. */
+  const addSection = (start: number, end: number) => {
+    while (end > start && document.getLine(end).trim() === '') {
+      end--
     }
-
-    // Skip processing lines inside a markdown code block
-    if (insideCodeBlock) {
-      continue
+    if (end > start) {
+      ranges.push({ start, end })
     }
+  }
 
-    // Match start tags
-    const startMatch = line.match(/^\s*(:{2,})([\w-]+)/)
-    if (startMatch) {
-      stack.push({
-        start: lineNumber,
-        tagName: startMatch[2],
-        colons: startMatch[1].length,
-      })
-      continue
+  walkMdcNodes(structure.children, (node) => {
+    switch (node.type) {
+      case 'component':
+        // Only closed block components can be folded
+        if (node.closingRange) {
+          ranges.push({ start: node.range.startLine, end: node.range.endLine })
+        }
+        break
+      case 'frontmatter':
+      case 'componentData':
+      case 'codeFence':
+        if (node.closed && node.range.endLine > node.range.startLine) {
+          ranges.push({
+            start: node.range.startLine,
+            end: node.range.endLine,
+            kind: node.type === 'frontmatter' ? 'imports' : undefined,
+          })
+        }
+        break
+      case 'slot':
+        addSection(node.range.startLine, node.range.endLine)
+        break
+      case 'comment': {
+        const line = document.getLine(node.range.startLine)
+        if (REGION_START_REGEX.test(line)) {
+          regionStack.push(node.range.startLine)
+        }
+        else if (REGION_END_REGEX.test(line) && regionStack.length > 0) {
+          ranges.push({ start: regionStack.pop()!, end: node.range.startLine, kind: 'region' })
+        }
+        else if (node.closed && node.range.endLine > node.range.startLine) {
+          ranges.push({ start: node.range.startLine, end: node.range.endLine, kind: 'comment' })
+        }
+        break
+      }
     }
+  })
 
-    // Match end tags
-    const endMatch = line.match(/^\s*(:{2,})$/)
-    if (endMatch && stack.length > 0) {
-      const colonCount = endMatch[1].length
-      const lastBlock = stack[stack.length - 1]
-      if (lastBlock && lastBlock.colons === colonCount) {
-        stack.pop()
-        ranges.push({
-          start: lastBlock.start,
-          end: lineNumber,
-        })
+  // Heading sections, up to the next heading of the same or a higher level
+  const addHeadingSections = (symbols: MdcDocumentSymbol[]) => {
+    for (const symbol of symbols) {
+      if (symbol.kind === 'heading') {
+        addSection(symbol.range.startLine, symbol.range.endLine)
       }
+      addHeadingSections(symbol.children)
     }
   }
+  addHeadingSections(getDocumentSymbols(document, structure))
 
-  return ranges
+  return ranges.sort((a, b) => a.start - b.start || b.end - a.end)
 }
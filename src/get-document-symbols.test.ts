@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { getDocumentSymbols, type MdcDocumentSymbol } from './get-document-symbols'
+import { createDocument } from './test-utils'
+
+/**
+ * Reduces symbols to their names and line spans for readable assertions.
+ */
+type SymbolOutline = [string, number, number, SymbolOutline[]?]
+function outline(symbols: MdcDocumentSymbol[]): SymbolOutline[] {
+  return symbols.map((symbol) => {
+    const entry: SymbolOutline = [symbol.name, symbol.range.startLine, symbol.range.endLine]
+    if (symbol.children.length > 0) {
+      entry.push(outline(symbol.children))
+    }
+    return entry
+  })
+}
+
+describe('getDocumentSymbols', () => {
+  it('nests heading sections by level', () => {
+    const doc = createDocument('# Title\nIntro\n## First\nText\n### Deep\n## Second\n# Other')
+
+    expect(outline(getDocumentSymbols(doc))).toEqual([
+      ['Title', 0, 5, [
+        ['First', 2, 4, [
+          ['Deep', 4, 4],
+        ]],
+        ['Second', 5, 5],
+      ]],
+      ['Other', 6, 6],
+    ])
+  })
+
+  it('nests components and slots under their heading and their own headings inside', () => {
+    const doc = createDocument([
+      '---',
+      'title: Page',
+      '---',
+      '# Title',
+      '::hero',
+      '#title',
+      '## Hero title',
+      'Text',
+      '#description',
+      '  :::card',
+      '  :::',
+      '::',
+      'After',
+    ].join('\n'))
+
+    expect(outline(getDocumentSymbols(doc))).toEqual([
+      ['frontmatter', 0, 2],
+      ['Title', 3, 12, [
+        ['hero', 4, 11, [
+          ['#title', 5, 7, [
+            ['Hero title', 6, 7],
+          ]],
+          ['#description', 8, 10, [
+            ['card', 9, 10],
+          ]],
+        ]],
+      ]],
+    ])
+  })
+
+  it('uses the opening marker and slot marker as selection ranges', () => {
+    const doc = createDocument('  ::card{title="Hi"}\n  #footer\n  ::')
+    const [card] = getDocumentSymbols(doc)
+
+    expect(card).toMatchObject({
+      kind: 'component',
+      detail: '::card',
+      selectionRange: { startLine: 0, startColumn: 2, endLine: 0, endColumn: 8 },
+    })
+    expect(card.children[0]).toMatchObject({
+      kind: 'slot',
+      selectionRange: { startLine: 1, startColumn: 2, endLine: 1, endColumn: 9 },
+    })
+  })
+
+  it('ignores headings inside code fences', () => {
+    const doc = createDocument('```md\n# Not a heading\n```')
+
+    expect(getDocumentSymbols(doc)).toEqual([])
+  })
+})
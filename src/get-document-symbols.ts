@@ -0,0 +1,132 @@
+import type { TextDocument, Range } from './find-matching-brackets'
+import { parseMdcStructure, type MdcNode, type MdcStructure } from './parse-mdc-structure'
+
+/**
+ * Represents an entry of the document outline.
+ */
+export interface MdcDocumentSymbol {
+  /** The symbol name, e.g. the heading text, the component tag or the `#slot` marker. */
+  name: string
+  /** A short detail shown next to the name. */
+  detail: string
+  /** What the symbol represents. */
+  kind: 'heading' | 'component' | 'slot' | 'frontmatter'
+  /** Range of the whole symbol, e.g. a heading and its section. */
+  range: Range
+  /** Range revealed when the symbol is selected, e.g. the heading line or the opening marker. */
+  selectionRange: Range
+  /** Nested symbols. */
+  children: MdcDocumentSymbol[]
+}
+
+/**
+ * Builds the symbols of a container, nesting them under heading sections.
+ *
+ * @param document - The text document.
+ * @param nodes - The nodes of the container.
+ * @param endLine - The last line of the container content, where open heading sections end.
+ */
+function buildSymbols(document: TextDocument, nodes: MdcNode[], endLine: number): MdcDocumentSymbol[] {
+  const symbols: MdcDocumentSymbol[] = []
+  const sections: { level: number, symbol: MdcDocumentSymbol }[] = []
+
+  /** Ends a heading section on the given line. */
+  const closeSection = (symbol: MdcDocumentSymbol, line: number) => {
+    const sectionEnd = Math.max(line, symbol.range.startLine)
+    symbol.range = {
+      startLine: symbol.range.startLine,
+      startColumn: symbol.range.startColumn,
+      endLine: sectionEnd,
+      endColumn: document.getLine(sectionEnd).length,
+    }
+  }
+
+  for (const node of nodes) {
+    let symbol: MdcDocumentSymbol | null = null
+
+    switch (node.type) {
+      case 'heading':
+        // A heading ends all sections of the same or a deeper level
+        while (sections.length > 0 && sections[sections.length - 1].level >= node.level) {
+          closeSection(sections.pop()!.symbol, node.range.startLine - 1)
+        }
+        symbol = {
+          name: node.text || '#'.repeat(node.level),
+          detail: `h${node.level}`,
+          kind: 'heading',
+          range: node.range,
+          selectionRange: node.range,
+          children: [],
+        }
+        break
+      case 'component':
+        symbol = {
+          name: node.name,
+          detail: ':'.repeat(node.colonCount) + node.name,
+          kind: 'component',
+          range: node.range,
+          selectionRange: node.openingRange,
+          children: buildSymbols(document, node.children, node.closingRange ? node.closingRange.startLine - 1 : node.range.endLine),
+        }
+        break
+      case 'slot':
+        symbol = {
+          name: `#${node.name}`,
+          detail: 'slot',
+          kind: 'slot',
+          range: node.range,
+          selectionRange: node.nameRange,
+          children: buildSymbols(document, node.children, node.range.endLine),
+        }
+        break
+      case 'frontmatter':
+        symbol = {
+          name: 'frontmatter',
+          detail: 'YAML',
+          kind: 'frontmatter',
+          range: node.range,
+          selectionRange: node.range,
+          children: [],
+        }
+        break
+    }
+
+    if (!symbol) {
+      continue
+    }
+
+    const section = sections[sections.length - 1]
+    if (section) {
+      section.symbol.children.push(symbol)
+    }
+    else {
+      symbols.push(symbol)
+    }
+
+    if (node.type === 'heading') {
+      sections.push({ level: node.level, symbol })
+    }
+  }
+
+  // Remaining sections extend to the end of the container
+  for (const section of sections) {
+    closeSection(section.symbol, endLine)
+  }
+
+  return symbols
+}
+
+/**
+ * Generates the document outline of an MDC document: a hierarchy of headings, block components,
+ * their `#slot` sections and the frontmatter.
+ *
+ * Headings contain everything up to the next heading of the same or a higher level within the same
+ * component or slot, and block components and slots contain their own nested outline.
+ *
+ * @param {TextDocument} document - The text document.
+ * @param {MdcStructure} structure - The already parsed structure of the document, if available.
+ * @returns {MdcDocumentSymbol[]} - The top-level symbols, in document order.
+ */
+export function getDocumentSymbols(document: TextDocument, structure: MdcStructure = parseMdcStructure(document)): MdcDocumentSymbol[] {
+  return buildSymbols(document, structure.children, Math.max(document.lineCount - 1, 0))
+}
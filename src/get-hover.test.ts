@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest'
+import type { MdcComponentRegistry } from './component-registry'
+import { getHover } from './get-hover'
+import { createDocument } from './test-utils'
+
+const registry: MdcComponentRegistry = [
+  {
+    name: 'ProseAlert',
+    description: 'Highlights important information.',
+    props: [
+      { name: 'type', type: 'string', values: ['info', 'warning'], default: 'info', description: 'The alert type.' },
+      { name: 'icon', type: 'string' },
+    ],
+    slots: [{ name: 'title', description: 'The alert title.' }],
+  },
+  { name: 'badge' },
+]
+
+const alertDocumentation = [
+  '**prose-alert**',
+  'Highlights important information.',
+  'Props:\n- `type`: `"info" | "warning"` · default: `info` — The alert type.\n- `icon`: `string`',
+  'Slots:\n- `#title` — The alert title.',
+].join('\n\n')
+
+describe('getHover', () => {
+  it('documents block components on their opening marker', () => {
+    const doc = createDocument('::prose-alert{type="info"}\nContent\n::')
+
+    expect(getHover(doc, { line: 0, column: 4 }, registry)).toEqual({
+      contents: alertDocumentation,
+      range: { startLine: 0, startColumn: 0, endLine: 0, endColumn: 13 },
+    })
+    expect(getHover(doc, { line: 1, column: 2 }, registry)).toBeNull()
+  })
+
+  it('documents inline components', () => {
+    const doc = createDocument('Some :badge and :prose-alert{icon="mdi:info"}')
+
+    expect(getHover(doc, { line: 0, column: 8 }, registry)).toEqual({
+      contents: '**badge**',
+      range: { startLine: 0, startColumn: 5, endLine: 0, endColumn: 11 },
+    })
+    expect(getHover(doc, { line: 0, column: 20 }, registry)?.contents).toBe(alertDocumentation)
+    // `:info` inside the quoted value is not an inline component
+    expect(getHover(doc, { line: 0, column: 40 }, registry)).toBeNull()
+  })
+
+  it('documents prop keys in attribute lists', () => {
+    const doc = createDocument('Text :prose-alert{icon="type" type="info"}')
+
+    expect(getHover(doc, { line: 0, column: 32 }, registry)).toEqual({
+      contents: '**type** prop of `prose-alert`\n\n`"info" | "warning"` · default: `info`\n\nThe alert type.',
+      range: { startLine: 0, startColumn: 30, endLine: 0, endColumn: 34 },
+    })
+    expect(getHover(doc, { line: 0, column: 25 }, registry)).toBeNull()
+  })
+
+  it('documents prop keys in component YAML blocks', () => {
+    const doc = createDocument('::prose-alert\n---\ntype: warning\nunknown: true\n---\n::')
+
+    expect(getHover(doc, { line: 2, column: 2 }, registry)?.range).toEqual({ startLine: 2, startColumn: 0, endLine: 2, endColumn: 4 })
+    expect(getHover(doc, { line: 2, column: 8 }, registry)).toBeNull()
+    expect(getHover(doc, { line: 3, column: 2 }, registry)).toBeNull()
+  })
+
+  it('documents slots of the enclosing component', () => {
+    const doc = createDocument('::prose-alert\n#title\nTitle\n::')
+
+    expect(getHover(doc, { line: 1, column: 3 }, registry)).toEqual({
+      contents: '**#title** slot of `prose-alert`\n\nThe alert title.',
+      range: { startLine: 1, startColumn: 0, endLine: 1, endColumn: 6 },
+    })
+  })
+
+  it('does not document components inside code fences', () => {
+    const doc = createDocument('```md\n::prose-alert\n```')
+
+    expect(getHover(doc, { line: 1, column: 4 }, registry)).toBeNull()
+  })
+})
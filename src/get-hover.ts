@@ -0,0 +1,168 @@
+import type { TextDocument, Position, Range } from './find-matching-brackets'
+import { parseMdcStructure, getNodePath, type MdcComponentNode } from './parse-mdc-structure'
+import {
+  describeComponent,
+  describeProp,
+  findComponentDefinition,
+  toKebabCase,
+  type MdcComponentDefinition,
+  type MdcComponentRegistry,
+} from './component-registry'
+
+/**
+ * Represents the documentation shown when hovering a part of the document.
+ */
+export interface MdcHover {
+  /** Markdown documentation. */
+  contents: string
+  /** Range of the hovered word. */
+  range: Range
+}
+
+/* Matches inline components, e.g. ":badge" in "Text :badge{type="info"}" */
+const INLINE_COMPONENT_REGEX = /(^|[^\w:]):([\w-]+)/g
+/* Matches attribute lists preceded by a component name, e.g. ":badge{type="info"}" */
+const COMPONENT_ATTRIBUTES_REGEX = /:([\w-]+)\{([^}]*)\}?/g
+/* Matches prop keys in an attribute list, e.g. "type" in `type="info"` or "data" in `:data='{}'` */
+const ATTRIBUTE_KEY_REGEX = /(^|\s):?([\w-]+)(?==|\s|$)/g
+/* Matches a YAML prop key, e.g. "type:" */
+const YAML_KEY_REGEX = /^(\s*:?)([\w-]+)\s*:/
+
+/**
+ * Creates a range on a single line.
+ */
+function createLineRange(line: number, startColumn: number, endColumn: number): Range {
+  return { startLine: line, startColumn, endLine: line, endColumn }
+}
+
+/**
+ * Returns whether a position is within a range on its line, including its end.
+ */
+function containsPosition(range: Range, position: Position): boolean {
+  return range.startLine === position.line && range.startColumn <= position.column && position.column <= range.endColumn
+}
+
+/**
+ * Returns the hover for a prop of a component definition, if documented.
+ */
+function getPropHover(definition: MdcComponentDefinition, name: string, range: Range): MdcHover | null {
+  const prop = definition.props?.find(prop => prop.name === name)
+  if (!prop) {
+    return null
+  }
+  return {
+    contents: `**${name}** prop of \`${toKebabCase(definition.name)}\`\n\n${describeProp(prop)}`,
+    range,
+  }
+}
+
+/**
+ * Returns the hover for a prop key inside an inline attribute list, e.g. `type` in `:badge{type="info"}`.
+ */
+function getAttributeHover(lineContent: string, position: Position, registry: MdcComponentRegistry): MdcHover | null {
+  for (const match of lineContent.matchAll(COMPONENT_ATTRIBUTES_REGEX)) {
+    const attributesStart = match.index! + match[1].length + 2
+    const attributesEnd = attributesStart + match[2].length
+    if (position.column < attributesStart || position.column > attributesEnd) {
+      continue
+    }
+
+    const definition = findComponentDefinition(registry, match[1])
+    if (!definition) {
+      return null
+    }
+
+    // Mask quoted values so they are not mistaken for keys, keeping column offsets intact
+    const attributes = match[2].replace(/"[^"]*"|'[^']*'/g, value => ' '.repeat(value.length))
+    for (const keyMatch of attributes.matchAll(ATTRIBUTE_KEY_REGEX)) {
+      const keyStart = attributesStart + keyMatch.index! + keyMatch[0].length - keyMatch[2].length
+      const range = createLineRange(position.line, keyStart, keyStart + keyMatch[2].length)
+      if (containsPosition(range, position)) {
+        return getPropHover(definition, keyMatch[2], range)
+      }
+    }
+    return null
+  }
+
+  return null
+}
+
+/**
+ * Provides hover documentation for MDC components, props and slots from a component registry.
+ *
+ * - Block component markers, e.g. `::alert`
+ * - Inline components, e.g. `:badge`
+ * - Prop keys in attribute lists, e.g. `type` in `{type="info"}`
+ * - Prop keys in component YAML blocks
+ * - Slot markers, e.g. `#title`
+ *
+ * @param {TextDocument} document - The text document.
+ * @param {Position} position - The zero-based cursor position.
+ * @param {MdcComponentRegistry} registry - The components available to authors.
+ * @returns {MdcHover | null} - The hover documentation, or null if there is nothing documented at the position.
+ */
+export function getHover(
+  document: TextDocument,
+  position: Position,
+  registry: MdcComponentRegistry,
+): MdcHover | null {
+  const lineContent = document.getLine(position.line)
+  const path = getNodePath(parseMdcStructure(document).children, position.line)
+  const innermost = path[path.length - 1]
+  const components = path.filter((node): node is MdcComponentNode => node.type === 'component')
+  const component = components[components.length - 1]
+
+  // Code fences, frontmatter and comments are never documented
+  if (innermost && (innermost.type === 'codeFence' || innermost.type === 'frontmatter' || innermost.type === 'comment')) {
+    return null
+  }
+
+  // Prop keys within the component YAML block
+  if (innermost?.type === 'componentData') {
+    const keyMatch = lineContent.match(YAML_KEY_REGEX)
+    const definition = findComponentDefinition(registry, component.name)
+    if (!keyMatch || !definition) {
+      return null
+    }
+    const range = createLineRange(position.line, keyMatch[1].length, keyMatch[1].length + keyMatch[2].length)
+    return containsPosition(range, position) ? getPropHover(definition, keyMatch[2], range) : null
+  }
+
+  // Block component opening markers
+  if (component && containsPosition(component.openingRange, position)) {
+    const definition = findComponentDefinition(registry, component.name)
+    return definition ? { contents: describeComponent(definition), range: component.openingRange } : null
+  }
+
+  // Slot markers
+  const slot = innermost?.type === 'slot' ? innermost : undefined
+  if (slot && component && containsPosition(slot.nameRange, position)) {
+    const definition = findComponentDefinition(registry, component.name)
+    const slotDefinition = definition?.slots?.find(definitionSlot => definitionSlot.name === slot.name)
+    if (!definition || !slotDefinition) {
+      return null
+    }
+    return {
+      contents: [`**#${slotDefinition.name}** slot of \`${toKebabCase(definition.name)}\``, slotDefinition.description].filter(Boolean).join('\n\n'),
+      range: slot.nameRange,
+    }
+  }
+
+  // Prop keys within attribute lists
+  const attributeHover = getAttributeHover(lineContent, position, registry)
+  if (attributeHover) {
+    return attributeHover
+  }
+
+  // Inline components
+  for (const match of lineContent.matchAll(INLINE_COMPONENT_REGEX)) {
+    const start = match.index! + match[1].length
+    const range = createLineRange(position.line, start, start + match[2].length + 1)
+    if (containsPosition(range, position)) {
+      const definition = findComponentDefinition(registry, match[2])
+      return definition ? { contents: describeComponent(definition), range } : null
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import { getOnEnterEdits } from './get-on-enter-edits'
+import { createDocument, applyEdits } from './test-utils'
+
+/**
+ * Returns the content after applying the on-enter edits for a cursor at the end of the given line.
+ */
+function pressEnter(content: string, line: number, options = { tabSize: 2 }): string {
+  const document = createDocument(content)
+  return applyEdits(content, getOnEnterEdits(document, { line, column: document.getLine(line).length }, options))
+}
+
+describe('getOnEnterEdits', () => {
+  describe('block components', () => {
+    it('inserts the closing marker on the line kept below the cursor', () => {
+      // The `IndentOutdent` enter rule indents the cursor line and keeps a line with the opening marker indent below it
+      expect(pressEnter('::callout\n  \n\n', 1)).toBe('::callout\n  \n::\n')
+      expect(pressEnter('Text\n  :::callout{type="info"}\n    \n  ', 2)).toBe('Text\n  :::callout{type="info"}\n    \n  :::')
+    })
+
+    it('inserts the closing marker when there is no line below the cursor', () => {
+      expect(pressEnter('::callout\n', 1)).toBe('::callout\n\n::')
+      expect(pressEnter('::callout\n\nText', 1)).toBe('::callout\n\n::\nText')
+    })
+
+    it('matches the colon count of nested components', () => {
+      expect(pressEnter('::outer\n  :::inner\n    \n  \n::', 2)).toBe('::outer\n  :::inner\n    \n  :::\n::')
+    })
+
+    it('inserts the closing marker when the existing one belongs to an unclosed parent', () => {
+      expect(pressEnter('::outer\n  ::inner\n    \n  \n::', 2)).toBe('::outer\n  ::inner\n    \n  ::\n::')
+    })
+
+    it('removes the kept line when the component is already closed', () => {
+      expect(pressEnter('::callout\n  \n\nContent\n::', 1)).toBe('::callout\n  \nContent\n::')
+    })
+
+    it('does not insert a closing marker for inline components or in code fences', () => {
+      expect(pressEnter('Text :badge\n\n', 1)).toBe('Text :badge\n\n')
+      expect(pressEnter('```md\n::callout\n\n\n```', 2)).toBe('```md\n::callout\n\n\n```')
+    })
+  })
+
+  describe('YAML blocks', () => {
+    it('indents below parent properties and multiline strings', () => {
+      expect(pressEnter('::card\n---\nimage:\n\n---\n::', 3)).toBe('::card\n---\nimage:\n  \n---\n::')
+      expect(pressEnter('---\nstyles: |\n\n---', 2, { tabSize: 4 })).toBe('---\nstyles: |\n    \n---')
+    })
+
+    it('keeps the indentation of nested properties', () => {
+      expect(pressEnter('::card\n---\nimage:\n  url: "/image.png"\n\n---\n::', 4)).toBe('::card\n---\nimage:\n  url: "/image.png"\n  \n---\n::')
+    })
+
+    it('aligns with the properties of array items and continues scalar arrays', () => {
+      expect(pressEnter('---\nlinks:\n  - name: Docs\n\n---', 3)).toBe('---\nlinks:\n  - name: Docs\n    \n---')
+      expect(pressEnter('---\nenv:\n  - dev\n\n---', 3)).toBe('---\nenv:\n  - dev\n  - \n---')
+    })
+
+    it('does not continue markdown lists in YAML blocks', () => {
+      expect(pressEnter('---\ntitle: Hello\n\n---', 2)).toBe('---\ntitle: Hello\n\n---')
+    })
+  })
+
+  describe('lists', () => {
+    it('continues unordered, ordered and task list items', () => {
+      expect(pressEnter('- Item\n', 1)).toBe('- Item\n- ')
+      expect(pressEnter('9. Item\n', 1)).toBe('9. Item\n10. ')
+      expect(pressEnter('* [x] Done\n', 1)).toBe('* [x] Done\n* [ ] ')
+    })
+
+    it('continues list items inside components', () => {
+      expect(pressEnter('::card\n  :::list\n    - Item\n    \n  :::\n::', 3)).toBe('::card\n  :::list\n    - Item\n    - \n  :::\n::')
+    })
+
+    it('ends the list on an empty list item', () => {
+      expect(pressEnter('- Item\n- \n', 2)).toBe('- Item\n\n')
+    })
+
+    it('does not continue lists in code fences', () => {
+      expect(pressEnter('```md\n- Item\n\n```', 2)).toBe('```md\n- Item\n\n```')
+    })
+  })
+
+  it('returns no edits when the cursor is not at the start of the line content', () => {
+    const content = '- Item\nText'
+
+    expect(getOnEnterEdits(createDocument(content), { line: 1, column: 4 })).toEqual([])
+    expect(getOnEnterEdits(createDocument(content), { line: 0, column: 0 })).toEqual([])
+  })
+})
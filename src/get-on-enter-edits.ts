@@ -0,0 +1,169 @@
+import type { TextDocument, Position } from './find-matching-brackets'
+import type { MdcTextEdit } from './formatting-edits'
+import { parseMdcStructure, getNodePath, type MdcComponentNode, type MdcNode } from './parse-mdc-structure'
+import { INDENT_REGEX, MULTILINE_STRING_REGEX, PARENT_PROPERTY_REGEX, STANDARD_PROPERTY_NAME, QUOTED_PROPERTY_NAME } from './expressions'
+
+/**
+ * Options for `getOnEnterEdits`.
+ */
+export interface OnEnterOptions {
+  /** The number of spaces per indentation level. Defaults to `2`. */
+  tabSize?: number
+}
+
+/* Matches markdown list items, capturing the indent, marker, spacing, task checkbox and content */
+const LIST_ITEM_REGEX = /^(\s*)([-*+]|\d{1,9}[.)])( +)(\[[ x]\] )?(\S.*)?$/i
+/* Matches YAML array items, capturing the indent, marker with its spacing and content */
+const YAML_ARRAY_ITEM_REGEX = /^(\s*)(- +)(\S.*)?$/
+
+/**
+ * Returns the edit replacing the leading whitespace of a line, or `null` if it is unchanged.
+ */
+function createIndentEdit(line: number, currentIndent: string, newIndent: string): MdcTextEdit | null {
+  if (currentIndent === newIndent) {
+    return null
+  }
+  return {
+    range: { startLine: line, startColumn: 0, endLine: line, endColumn: currentIndent.length },
+    newText: newIndent,
+  }
+}
+
+/**
+ * Returns the edits completing a component opened on the line above the cursor: the line the editor kept
+ * below the cursor is turned into the matching closing marker, or removed when the component is already closed.
+ */
+function getComponentEdits(document: TextDocument, line: number, path: MdcNode[]): MdcTextEdit[] | null {
+  const components = path.filter((node): node is MdcComponentNode => node.type === 'component')
+  const index = components.findIndex(component => component.openingRange.startLine === line - 1)
+  if (index === -1) {
+    return null
+  }
+  const component = components[index]
+
+  // A closing marker with the same colon count as an unclosed parent belongs to the parent,
+  // e.g. the existing `::` closes `::outer` after typing `::inner` inside of it
+  const needsClosing = !component.closingRange || components
+    .slice(0, index)
+    .some(parent => !parent.closingRange && parent.colonCount === component.colonCount)
+
+  const closingMarker = ' '.repeat(component.indent) + ':'.repeat(component.colonCount)
+  const cursorLine = document.getLine(line)
+  const hasNextLine = line + 1 < document.lineCount
+  const nextLine = hasNextLine ? document.getLine(line + 1) : ''
+
+  // The `IndentOutdent` enter rule keeps a blank line below the cursor, reuse it
+  if (hasNextLine && nextLine.trim() === '') {
+    return needsClosing
+      ? [{ range: { startLine: line + 1, startColumn: 0, endLine: line + 1, endColumn: nextLine.length }, newText: closingMarker }]
+      : [{ range: { startLine: line, startColumn: cursorLine.length, endLine: line + 1, endColumn: nextLine.length }, newText: '' }]
+  }
+  if (!needsClosing) {
+    return []
+  }
+  if (hasNextLine) {
+    return [{ range: { startLine: line + 1, startColumn: 0, endLine: line + 1, endColumn: 0 }, newText: `${closingMarker}\n` }]
+  }
+  return [{ range: { startLine: line, startColumn: cursorLine.length, endLine: line, endColumn: cursorLine.length }, newText: `\n${closingMarker}` }]
+}
+
+/**
+ * Returns the edits continuing the YAML indentation of the line above the cursor.
+ */
+function getYamlEdits(line: number, previousLine: string, cursorIndent: string, tabSize: number): MdcTextEdit[] {
+  const previousIndent = previousLine.match(INDENT_REGEX)![0]
+  const arrayItem = previousLine.match(YAML_ARRAY_ITEM_REGEX)
+  // Properties of an array item, e.g. `- name: value`, are aligned after the `- ` marker
+  const property = arrayItem ? arrayItem[3] || '' : previousLine.trim()
+  const propertyIndent = arrayItem ? previousIndent.length + arrayItem[2].length : previousIndent.length
+  const isProperty = STANDARD_PROPERTY_NAME.test(property) || QUOTED_PROPERTY_NAME.test(property)
+
+  let newIndent = cursorIndent
+  if (PARENT_PROPERTY_REGEX.test(property) || MULTILINE_STRING_REGEX.test(property)) {
+    newIndent = ' '.repeat(propertyIndent + tabSize)
+  }
+  else if (arrayItem && !isProperty && property !== '') {
+    // Continue an array of scalar values
+    newIndent = `${previousIndent}${arrayItem[2]}`
+  }
+  else if (isProperty) {
+    newIndent = ' '.repeat(propertyIndent)
+  }
+
+  const edit = createIndentEdit(line, cursorIndent, newIndent)
+  return edit ? [edit] : []
+}
+
+/**
+ * Returns the edits continuing the markdown list item on the line above the cursor.
+ */
+function getListEdits(line: number, previousLine: string, cursorIndent: string): MdcTextEdit[] {
+  const listItem = previousLine.match(LIST_ITEM_REGEX)
+  if (!listItem) {
+    return []
+  }
+  const [, indent, marker, spacing, task, content] = listItem
+
+  // Enter on an empty list item ends the list
+  if (!content) {
+    return [{ range: { startLine: line - 1, startColumn: 0, endLine: line - 1, endColumn: previousLine.length }, newText: '' }]
+  }
+
+  const ordinal = Number.parseInt(marker, 10)
+  const nextMarker = Number.isNaN(ordinal) ? marker : `${ordinal + 1}${marker.slice(-1)}`
+  const edit = createIndentEdit(line, cursorIndent, `${indent}${nextMarker}${spacing}${task ? '[ ] ' : ''}`)
+  return edit ? [edit] : []
+}
+
+/**
+ * Returns the edits to apply after a new line was inserted in an MDC document:
+ * - After a block component opening marker, e.g. `::callout`, the matching closing marker with the same number of colons
+ *   is inserted below the cursor, unless the component is already closed.
+ * - Inside frontmatter and component YAML blocks, the new line is indented below parent properties and multiline strings,
+ *   aligned with the properties of array items, and scalar array items are continued.
+ * - In markdown content, including inside components, list items are continued with the next marker,
+ *   and an empty list item ends the list.
+ *
+ * The editor is expected to keep a blank line below the cursor when Enter is pressed after an opening marker,
+ * as the `IndentOutdent` enter rule of `conf.onEnterRules` does, so the closing marker is inserted without moving the cursor.
+ *
+ * @param {TextDocument} document - The document after the new line was inserted.
+ * @param {Position} position - The zero-based cursor position on the new line.
+ * @param {OnEnterOptions} options - The indentation options.
+ * @returns {MdcTextEdit[]} - The edits with zero-based ranges, in document order.
+ */
+export function getOnEnterEdits(document: TextDocument, position: Position, options: OnEnterOptions = {}): MdcTextEdit[] {
+  const { tabSize = 2 } = options
+  const { line, column } = position
+  if (line === 0 || line >= document.lineCount) {
+    return []
+  }
+
+  // Only act when the cursor is at the start of the new line content
+  const cursorIndent = document.getLine(line).slice(0, column)
+  if (cursorIndent.trim() !== '') {
+    return []
+  }
+
+  const previousLine = document.getLine(line - 1)
+  const structure = parseMdcStructure(document)
+  const previousPath = getNodePath(structure.children, line - 1)
+
+  if (document.getLine(line).trim() === '') {
+    const componentEdits = getComponentEdits(document, line, getNodePath(structure.children, line))
+    if (componentEdits) {
+      return componentEdits
+    }
+  }
+
+  const innermost = previousPath[previousPath.length - 1]
+  if (innermost && (innermost.type === 'frontmatter' || innermost.type === 'componentData')) {
+    // Skip the opening `---` delimiter
+    return innermost.range.startLine === line - 1 ? [] : getYamlEdits(line, previousLine, cursorIndent, tabSize)
+  }
+  if (innermost && (innermost.type === 'codeFence' || innermost.type === 'comment')) {
+    return []
+  }
+
+  return getListEdits(line, previousLine, cursorIndent)
+}
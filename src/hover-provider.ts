@@ -0,0 +1,60 @@
+import type { languages } from 'monaco-editor-core'
+import type { MdcComponentRegistry } from './component-registry'
+import { getHover } from './get-hover'
+
+/**
+ * Options for the hover provider.
+ */
+export interface HoverProviderOptions {
+  /** The components available to authors. */
+  components: MdcComponentRegistry
+}
+
+/**
+ * Creates a Monaco hover provider showing the documentation of MDC components, props and slots.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createHoverProvider } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.languages.registerHoverProvider('mdc', createHoverProvider({
+ *   components: [
+ *     { name: 'alert', description: 'Highlight important information' },
+ *   ],
+ * }))
+ * ```
+ *
+ * @param options - The hover provider options
+ * @returns A hover provider to register for the MDC language
+ */
+export function createHoverProvider(options: HoverProviderOptions): languages.HoverProvider {
+  return {
+    provideHover: (model, position) => {
+      const hover = getHover(
+        {
+          getLine: (lineNumber: number) => model.getLineContent(lineNumber + 1), // Monaco uses 1-based line numbers
+          lineCount: model.getLineCount(),
+        },
+        // Convert to 0-based
+        { line: position.lineNumber - 1, column: position.column - 1 },
+        options.components,
+      )
+
+      if (!hover) {
+        return null
+      }
+
+      return {
+        contents: [{ value: hover.contents }],
+        // Convert 0-based to 1-based
+        range: {
+          startLineNumber: hover.range.startLine + 1,
+          startColumn: hover.range.startColumn + 1,
+          endLineNumber: hover.range.endLine + 1,
+          endColumn: hover.range.endColumn + 1,
+        },
+      }
+    },
+  }
+}
@@ -1,259 +1,66 @@
-/**
- * MDC language
- * Based on official markdown language
- */
 import type { languages } from 'monaco-editor-core'
+import { createMdcLanguage } from './language'
 
-export const conf: languages.LanguageConfiguration = {
-  comments: {
-    blockComment: ['<!--', '-->'],
-  },
-  brackets: [
-    ['{', '}'],
-    ['[', ']'],
-    ['(', ')'],
-  ],
-  autoClosingPairs: [
-    { open: '{', close: '}' },
-    { open: '[', close: ']' },
-    { open: '(', close: ')' },
-    { open: '<', close: '>', notIn: ['string'] },
-  ],
-  surroundingPairs: [
-    { open: '(', close: ')' },
-    { open: '[', close: ']' },
-    { open: '`', close: '`' },
-  ],
-  folding: {
-    markers: {
-      start: /^\\s*<!--\\s*#?region\\b.*-->/,
-      end: /^\\s*<!--\\s*#?endregion\\b.*-->/,
-    },
-  },
-}
+const mdcLanguage = createMdcLanguage()
 
-export const language = <languages.IMonarchLanguage>{
-  defaultToken: '',
-  tokenPostfix: '.md',
-
-  // escape codes
-  control: /[\\`*_[\]{}()#+\-.!]/,
-  noncontrol: /[^\\`*_[\]{}()#+\-.!]/,
-  escapes: /\\@control/,
-
-  // escape codes for javascript/CSS strings
-  jsescapes: /\\(?:[btnfr\\"']|[0-3]?[0-7]{1,2})/,
-
-  // non matched elements
-  empty: [
-    'area', 'base', 'basefont', 'br', 'col', 'frame',
-    'hr', 'img', 'input', 'isindex', 'link', 'meta', 'param',
-  ],
-
-  tokenizer: {
-    root: [
-      [/^---$/, { token: '', next: '@frontmatter', nextEmbedded: 'yaml' }],
-      { include: 'markdown' },
-    ],
-
-    frontmatter: [
-      [/^\s*---\s*$/, { token: '', next: '@markdown', nextEmbedded: '@pop', bracket: '@close' }],
-      [/.*$/, 'variable.source'],
-    ],
-
-    markdown: [
-
-      // headers (with #)
-      [/^(\s{0,3}#+)/, { token: 'keyword', next: '@headercontent' }],
-
-      // headers (with =)
-      [/^\s*(=+|-+)\s*$/, 'keyword'],
-
-      // headers (with ***)
-      [/^\s*((\* ?)+)\s*$/, 'meta.separator'],
-
-      // quote
-      [/^\s*>+/, 'comment'],
-
-      // list (starting with * or number)
-      [/^\s*([*\-+]|\d+\.)\s/, 'keyword'],
-
-      // code block (4 spaces indent)
-      [/^(\t| {4})[^ ].*$/, 'string'],
-
-      // code block (3 tilde)
-      [/^\s*~~~\s*(?:([\w/\-#]+)\s*)?$/, { token: '', next: '@codeblock' }],
-
-      // github style code blocks (with backticks and language)
-      [/^\s*```\s*([\w/\-#]+)\s*$/, { token: '', next: '@codeblockgh', nextEmbedded: '$1' }],
-
-      // github style code blocks (with backticks but no language)
-      [/^\s*```\s*$/, { token: '', next: '@codeblock' }],
-
-      // MDC style code blocks (with backticks and language in brackets)
-      // eslint-disable-next-line regexp/no-super-linear-backtracking
-      [/^\s*```\s*([\w/\-#]+)(\s*(\{[^}]*\}))?(\s*(\[[^\]]*\]))?(\s*(\{[^}]*\}))?.*$/, { token: '', next: '@codeblockmdc', nextEmbedded: '$1' }],
-
-      // block components
-      [/^\s*(:{2,})([\w-]+)/, 'tag', '@componentWithData'],
-
-      // markup within lines
-      { include: '@linecontent' },
-
-    ],
-
-    componentWithData: [
-      [/\{/, 'tag', '@attributes'],
-      [/^\s*---\s*$/, { token: '', next: '@componentData', nextEmbedded: 'yaml' }],
-      [/^\s*:{2,}\s*$/, 'tag', '@pop'],
-      { include: '@component' },
-    ],
-
-    component: [
-      // #slots
-      [/^\s*#[\w-]*\s*$/, 'attribute.name.html'],
-      { include: '@markdown' },
-    ],
-
-    componentData: [
-      [/^\s*---\s*$/, { token: '', next: '@pop', nextEmbedded: '@pop', bracket: '@close' }],
-      [/.*$/, 'variable.source'],
-    ],
-
-    attributes: [
-      // class|id
-      [/[^}=][^\s=}]*[\s.#]*/, 'attribute.name.html'],
-      [/[^}=][^\s=}]*(\})/, ['attribute.name.html', { token: 'tag', next: '@pop' }]],
-      [/(=)("[^"]*"|[^"\s=}]*)/, ['', 'string.html']],
-      [/\}/, 'tag', '@pop'],
-    ],
-
-    codeblock: [
-      [/^\s*~~~\s*$/, { token: '', next: '@pop' }],
-      [/^\s*```\s*$/, { token: '', next: '@pop' }],
-      [/.*$/, 'variable.source'],
-    ],
-
-    // github style code blocks
-    codeblockgh: [
-      [/```\s*$/, { token: '', next: '@pop', nextEmbedded: '@pop' }],
-      [/[^`]+/, 'variable.source'],
-    ],
-
-    // github style code blocks
-    codeblockmdc: [
-      [/```\s*$/, { token: '', next: '@pop', nextEmbedded: '@pop' }],
-      [/[^`]+/, 'string'],
-    ],
-
-    headercontent: [
-      [/^/, 'keyword', '@pop'], // go back to markdown mode if we find a newline
-      [/((?:[^\\#]|@escapes)+)(#*)/, 'keyword'], // header text
-      { include: '@linecontent' },
-    ],
-
-    linecontent: [
-      // escapes
-      [/&\w+;/, 'string.escape'],
-      [/@escapes/, 'escape'],
-
-      // various markup
-      // [/(\b__([\w]+)__)({)/, ['strong', '']],
-      [/\b__([^\\_]|@escapes|_(?!_))+__\b/, 'strong'],
-      [/\*\*([^\\*]|@escapes|\*(?!\*))+\*\*/, 'strong'],
-      [/\b_[^_]+_\b/, 'emphasis'],
-      [/\*([^\\*]|@escapes)+\*/, 'emphasis'],
-      [/`([^\\`]|@escapes)+`/, 'variable'],
-
-      // links
-      [/^\{[^}]*\}+/, 'string.link'],
-      [/[^*_)\]]\{[^}]*\}+/, 'string.link'],
-      [/(!?\[)((?:[^\]\\]|@escapes)*)(\]\([^)]+\))/, ['string.link', '', 'string.link']],
-      // [/(!?\[)((?:[^\]\\]|@escapes)*)(\])/, 'string.link'],
-
-      [/\{/, { token: 'tag', next: '@attributes' }],
-
-      // :block{#attribute}
-      [/(:)([\w-]+)(\{)/, ['tag', 'tag', { token: 'tag', next: '@attributes' }]],
-      // :block
-      [/(:)([\w-]+)/, ['tag', 'tag']],
-
-      // [span]
-      [/(\[)([^\]]*)(\])(\{)/, ['string.link', '', 'string.link', { token: 'tag', next: '@attributes' }]],
-      [/(\[)([^\]]*)(\])/, ['string.link', '', 'string.link']],
-
-      // or html
-      { include: 'html' },
-    ],
-
-    // Note: it is tempting to rather switch to the real HTML mode instead of building our own here
-    // but currently there is a limitation in Monarch that prevents us from doing it: The opening
-    // '<' would start the HTML mode, however there is no way to jump 1 character back to let the
-    // HTML mode also tokenize the opening angle bracket. Thus, even though we could jump to HTML,
-    // we cannot correctly tokenize it in that mode yet.
-    html: [
-      // html tags
-      [/<(\w+)\/>/, 'tag'],
-      [/<(\w+)/, {
-        cases: {
-          '@empty': { token: 'tag', next: '@tag.$1' },
-          '@default': { token: 'tag', next: '@tag.$1' },
-        },
-      }],
-      [/<\/(\w+)\s*>/, { token: 'tag' }],
-
-      [/<!--/, 'comment', '@comment'],
-    ],
-
-    comment: [
-      [/[^<-]+/, 'comment.content'],
-      [/-->/, 'comment', '@pop'],
-      [/<!--/, 'comment.content.invalid'],
-      [/[<-]/, 'comment.content'],
-    ],
-
-    // Almost full HTML tag matching, complete with embedded scripts & styles
-    tag: [
-      [/[ \t\r\n]+/, 'white'],
-      [/(type)(\s*=\s*)(")([^"]+)(")/, ['attribute.name.html', 'delimiter.html', 'string.html',
-        { token: 'string.html', switchTo: '@tag.$S2.$4' },
-        'string.html']],
-      [/(type)(\s*=\s*)(')([^']+)(')/, ['attribute.name.html', 'delimiter.html', 'string.html',
-        { token: 'string.html', switchTo: '@tag.$S2.$4' },
-        'string.html']],
-      [/(\w+)(\s*=\s*)("[^"]*"|'[^']*')/, ['attribute.name.html', 'delimiter.html', 'string.html']],
-      [/\w+/, 'attribute.name.html'],
-      [/\/>/, 'tag', '@pop'],
-      [/>/, {
-        cases: {
-          '$S2==style': { token: 'tag', switchTo: 'embeddedStyle', nextEmbedded: 'text/css' },
-          '$S2==script': {
-            cases: {
-              '$S3': { token: 'tag', switchTo: 'embeddedScript', nextEmbedded: '$S3' },
-              '@default': { token: 'tag', switchTo: 'embeddedScript', nextEmbedded: 'text/javascript' },
-            },
-          },
-          '@default': { token: 'tag', next: '@pop' },
-        },
-      }],
-    ],
-
-    embeddedStyle: [
-      [/[^<]+/, ''],
-      [/<\/style\s*>/, { token: '@rematch', next: '@pop', nextEmbedded: '@pop' }],
-      [/</, ''],
-    ],
-
-    embeddedScript: [
-      [/[^<]+/, ''],
-      [/<\/script\s*>/, { token: '@rematch', next: '@pop', nextEmbedded: '@pop' }],
-      [/</, ''],
-    ],
-  },
-}
+export const conf: languages.LanguageConfiguration = mdcLanguage.conf
+export const language: languages.IMonarchLanguage = mdcLanguage.language
 
+export { createMdcLanguage } from './language'
+export { registerMdc } from './register-mdc'
+export { yamlLanguage, yamlConf, MDC_YAML_LANGUAGE_ID } from './yaml-language'
+export { mdcLight, mdcDark } from './themes'
+export { codeFenceLanguageAliases } from './code-fence-languages'
 export { formatter } from './formatter'
+export { getFormattingEdits, formatRange } from './formatting-edits'
+export { getOnEnterEdits } from './get-on-enter-edits'
+export { createDocumentFormattingEditProvider, createDocumentRangeFormattingEditProvider, createOnTypeFormattingEditProvider } from './formatting-provider'
 export { foldingProvider } from './folding-provider'
 export { getDocumentFoldingRanges } from './get-document-folding-ranges'
 export { registerBracketMatcher } from './bracket-matcher'
 export { findMatchingBrackets } from './find-matching-brackets'
+export { parseMdcStructure, walkMdcNodes, getNodePath } from './parse-mdc-structure'
+export { validateDocument } from './validate-document'
+export { registerDiagnosticsProvider } from './diagnostics-provider'
+export { findComponentDefinition } from './component-registry'
+export { getCompletionItems } from './get-completion-items'
+export { createCompletionItemProvider } from './completion-provider'
+export { getHover } from './get-hover'
+export { createHoverProvider } from './hover-provider'
+export { getDocumentSymbols } from './get-document-symbols'
+export { createDocumentSymbolProvider } from './document-symbol-provider'
+export { convertPropsToYaml, convertPropsToInline } from './convert-component-props'
+export { getCodeActions } from './get-code-actions'
+export { createCodeActionProvider } from './code-action-provider'
+export type {
+  MdcStructure,
+  MdcNode,
+  MdcFrontmatterNode,
+  MdcComponentNode,
+  MdcComponentDataNode,
+  MdcSlotNode,
+  MdcCodeFenceNode,
+  MdcCommentNode,
+  MdcHeadingNode,
+  MdcUnmatchedClosing,
+} from './parse-mdc-structure'
+export type { MdcDiagnostic, MdcDiagnosticCode } from './validate-document'
+export type { DiagnosticsProviderOptions } from './diagnostics-provider'
+export type {
+  MdcComponentRegistry,
+  MdcComponentDefinition,
+  MdcPropDefinition,
+  MdcSlotDefinition,
+} from './component-registry'
+export type { MdcCompletionItem } from './get-completion-items'
+export type { CompletionProviderOptions } from './completion-provider'
+export type { MdcHover } from './get-hover'
+export type { HoverProviderOptions } from './hover-provider'
+export type { MdcDocumentSymbol } from './get-document-symbols'
+export type { MdcCodeAction } from './get-code-actions'
+export type { FormatterOptions } from './formatter'
+export type { MdcTextEdit } from './formatting-edits'
+export type { OnEnterOptions } from './get-on-enter-edits'
+export type { FormattingProviderOptions } from './formatting-provider'
+export type { MdcLanguage, MdcLanguageOptions } from './language'
+export type { RegisterMdcOptions } from './register-mdc'
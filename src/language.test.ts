@@ -0,0 +1,508 @@
+import { describe, it, expect } from 'vitest'
+// @ts-expect-error The Monarch internals ship without type declarations
+import { compile } from 'monaco-editor-core/esm/vs/editor/standalone/common/monarch/monarchCompile.js'
+// @ts-expect-error The Monarch internals ship without type declarations
+import { MonarchTokenizer } from 'monaco-editor-core/esm/vs/editor/standalone/common/monarch/monarchLexer.js'
+import type { languages } from 'monaco-editor-core'
+import { language } from './index'
+import { createMdcLanguage } from './language'
+import { yamlLanguage } from './yaml-language'
+
+interface Token {
+  offset: number
+  type: string
+  language: string
+}
+
+/**
+ * Tokenizes content with the Monarch tokenizer of the MDC language, without embedded languages.
+ *
+ * @param content - The content to tokenize.
+ * @param monarchLanguage - The Monarch language to tokenize with, defaults to the exported `language`.
+ * @returns The tokens of each line as `[text, type]` pairs, without the `.md` token postfix.
+ * Tokens of embedded languages are reported with the language id as their type.
+ */
+function tokenize(content: string, monarchLanguage: languages.IMonarchLanguage = language): [string, string][][] {
+  const tokenizer = new MonarchTokenizer(
+    // Embedded languages, e.g. YAML, are not registered
+    { isRegisteredLanguageId: () => false, getLanguageIdByLanguageName: () => null, getLanguageIdByMimeType: () => null, requestRichLanguageFeatures: () => {} },
+    {},
+    'mdc',
+    compile('mdc', monarchLanguage),
+    { getValue: () => 20_000, onDidChangeConfiguration: () => ({ dispose: () => {} }) },
+  )
+
+  let state = tokenizer.getInitialState()
+  return content.split('\n').map((line) => {
+    const result = tokenizer.tokenize(line, true, state)
+    state = result.endState
+    return result.tokens.map((token: Token, index: number) => [
+      line.slice(token.offset, result.tokens[index + 1]?.offset ?? line.length),
+      token.language === 'mdc' ? token.type.replace(/\.md$/, '') : token.language,
+    ])
+  })
+}
+
+/**
+ * Returns the token type of the first token of each line.
+ */
+function getLineTypes(content: string, monarchLanguage?: languages.IMonarchLanguage): string[] {
+  return tokenize(content, monarchLanguage).map(tokens => tokens[0]?.[1] ?? '')
+}
+
+describe('language', () => {
+  describe('block components', () => {
+    it('tokenizes the opening and closing markers', () => {
+      expect(tokenize('::card\nContent\n::')).toEqual([
+        [['::', 'delimiter.component'], ['card', 'tag.component']],
+        [['Content', '']],
+        [['::', 'delimiter.component']],
+      ])
+    })
+
+    it('closes three levels of nested components with their own closing markers', () => {
+      // Slot names are only tokenized inside components, headings only outside of them
+      const content = [
+        '::::level-one',
+        '#one',
+        ':::level-two',
+        '#two',
+        '::level-three',
+        '#three',
+        '::',
+        '#two',
+        ':::',
+        '#one',
+        '::::',
+        '#heading',
+      ].join('\n')
+
+      expect(getLineTypes(content)).toEqual([
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'keyword',
+      ])
+    })
+
+    it('does not close a component with a closing marker of a different colon count', () => {
+      const content = [
+        ':::outer',
+        '::inner',
+        ':::',
+        '#inner',
+        '::',
+        '#outer',
+        ':::',
+        '#heading',
+      ].join('\n')
+
+      expect(getLineTypes(content)).toEqual([
+        'delimiter.component',
+        'delimiter.component',
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'tag.slot',
+        'delimiter.component',
+        'keyword',
+      ])
+    })
+
+    it('keeps the colon count of components with attributes and YAML props', () => {
+      const content = [
+        '::::outer{type="info"}',
+        ':::inner',
+        '---',
+        'title: Hello',
+        '---',
+        ':::',
+        '#outer',
+        '::::',
+        '#heading',
+      ].join('\n')
+
+      expect(getLineTypes(content).slice(5)).toEqual(['delimiter.component', 'tag.slot', 'delimiter.component', 'keyword'])
+    })
+  })
+
+  describe('token names', () => {
+    it('tokenizes component names, props and bindings', () => {
+      expect(tokenize('::alert{type="info" :closable="true"}\nText :icon{name="mdi:github"}\n::')).toEqual([
+        [
+          ['::', 'delimiter.component'],
+          ['alert', 'tag.component'],
+          ['{', 'delimiter.attribute'],
+          ['type', 'attribute.name.prop'],
+          ['=', 'delimiter'],
+          ['"info"', 'attribute.value.prop'],
+          [' ', ''],
+          [':closable', 'attribute.name.binding'],
+          ['=', 'delimiter'],
+          ['"', 'attribute.value.prop'],
+          ['true', 'javascript'],
+          ['"', 'attribute.value.prop'],
+          ['}', 'delimiter.attribute'],
+        ],
+        [
+          ['Text ', ''],
+          [':', 'delimiter.component'],
+          ['icon', 'tag.component'],
+          ['{', 'delimiter.attribute'],
+          ['name', 'attribute.name.prop'],
+          ['=', 'delimiter'],
+          ['"mdi:github"', 'attribute.value.prop'],
+          ['}', 'delimiter.attribute'],
+        ],
+        [['::', 'delimiter.component']],
+      ])
+    })
+
+    it('tokenizes slot names', () => {
+      expect(tokenize('::hero\n#title\nTitle\n::')[1]).toEqual([['#title', 'tag.slot']])
+    })
+
+    it('tokenizes frontmatter keys', () => {
+      expect(tokenize('---\ntitle: Hello\n# Comment\ntags:\n  - name: mdc\n---\n# Heading')).toEqual([
+        [['---', '']],
+        [['title', 'key.frontmatter'], [':', 'delimiter'], [' ', ''], ['Hello', 'string']],
+        [['# Comment', 'comment']],
+        [['tags', 'key.frontmatter'], [':', 'delimiter']],
+        [['  - ', ''], ['name', 'key.frontmatter'], [':', 'delimiter'], [' ', ''], ['mdc', 'string']],
+        [['---', '']],
+        [['# Heading', 'keyword']],
+      ])
+    })
+  })
+
+  describe('YAML', () => {
+    it('tokenizes frontmatter values, flow collections and block scalars', () => {
+      const content = '---\nnext: 1.5 # comment\ntags: [a, "b", true]\ndescription: |\n  Line one\n\n    Line two\nok: null\n---'
+
+      expect(tokenize(content)).toEqual([
+        [['---', '']],
+        [['next', 'key.frontmatter'], [':', 'delimiter'], [' ', ''], ['1.5', 'number'], [' ', ''], ['# comment', 'comment']],
+        [['tags', 'key.frontmatter'], [':', 'delimiter'], [' ', ''], ['[', 'delimiter.square'], ['a', 'string'], [',', 'delimiter.comma'], [' ', ''], ['"b"', 'string'], [',', 'delimiter.comma'], [' ', ''], ['true', 'keyword'], [']', 'delimiter.square']],
+        [['description', 'key.frontmatter'], [':', 'delimiter'], [' ', ''], ['|', 'operators']],
+        [['  Line one', 'string']],
+        [],
+        [['    Line two', 'string']],
+        [['ok', 'key.frontmatter'], [':', 'delimiter'], [' ', ''], ['null', 'keyword']],
+        [['---', '']],
+      ])
+    })
+
+    it('tokenizes keys, arrays and block scalars with the bundled YAML language', () => {
+      const content = 'title: Hello World\nlist:\n  - name: x\n  - -3\ntext: >-\n  a: b\nurl: https://nuxt.com'
+
+      expect(tokenize(content, yamlLanguage)).toEqual([
+        [['title', 'type.yaml'], [':', 'operators.yaml'], [' ', ''], ['Hello World', 'string.yaml']],
+        [['list', 'type.yaml'], [':', 'operators.yaml']],
+        [['  - ', ''], ['name', 'type.yaml'], [':', 'operators.yaml'], [' ', ''], ['x', 'string.yaml']],
+        [['  ', ''], ['-', 'operators.yaml'], [' ', ''], ['-3', 'number.yaml']],
+        [['text', 'type.yaml'], [':', 'operators.yaml'], [' ', ''], ['>-', 'operators.yaml']],
+        [['  a: b', 'string.yaml']],
+        [['url', 'type.yaml'], [':', 'operators.yaml'], [' ', ''], ['https://nuxt.com', 'string.yaml']],
+      ])
+    })
+  })
+
+  describe('attributes', () => {
+    it('tokenizes ids, classes and boolean props', () => {
+      expect(tokenize(':badge{#main .primary .large disabled}')[0]).toEqual([
+        [':', 'delimiter.component'],
+        ['badge', 'tag.component'],
+        ['{', 'delimiter.attribute'],
+        ['#main', 'attribute.name.id'],
+        [' ', ''],
+        ['.primary', 'attribute.name.class'],
+        [' ', ''],
+        ['.large', 'attribute.name.class'],
+        [' ', ''],
+        ['disabled', 'attribute.name.prop'],
+        ['}', 'delimiter.attribute'],
+      ])
+    })
+
+    it('tokenizes double quoted, single quoted and unquoted values', () => {
+      expect(tokenize(`:badge{type="info" label='New' size=large}`)[0].slice(3)).toEqual([
+        ['type', 'attribute.name.prop'],
+        ['=', 'delimiter'],
+        ['"info"', 'attribute.value.prop'],
+        [' ', ''],
+        ['label', 'attribute.name.prop'],
+        ['=', 'delimiter'],
+        [`'New'`, 'attribute.value.prop'],
+        [' ', ''],
+        ['size', 'attribute.name.prop'],
+        ['=', 'delimiter'],
+        ['large', 'attribute.value.prop'],
+        ['}', 'delimiter.attribute'],
+      ])
+    })
+
+    it('embeds the value of bound props as JavaScript', () => {
+      const [tokens] = tokenize(`::chart{:data='{"json":true}' :count="1 + 2" title="Chart"}`)
+
+      expect(tokens.slice(3)).toEqual([
+        [':data', 'attribute.name.binding'],
+        ['=', 'delimiter'],
+        [`'`, 'attribute.value.prop'],
+        ['{"json":true}', 'javascript'],
+        [`'`, 'attribute.value.prop'],
+        [' ', ''],
+        [':count', 'attribute.name.binding'],
+        ['=', 'delimiter'],
+        ['"', 'attribute.value.prop'],
+        ['1 + 2', 'javascript'],
+        ['"', 'attribute.value.prop'],
+        [' ', ''],
+        ['title', 'attribute.name.prop'],
+        ['=', 'delimiter'],
+        ['"Chart"', 'attribute.value.prop'],
+        ['}', 'delimiter.attribute'],
+      ])
+    })
+  })
+
+  describe('GitHub flavored markdown', () => {
+    it('tokenizes tables', () => {
+      expect(tokenize('| Name | **Type** |\n| :--- | ---: |\n| `a` | :badge |\nText | not a table')).toEqual([
+        [['|', 'delimiter.table'], [' Name ', ''], ['|', 'delimiter.table'], [' ', ''], ['**Type**', 'strong'], [' ', ''], ['|', 'delimiter.table']],
+        [['| :--- | ---: |', 'delimiter.table']],
+        [
+          ['|', 'delimiter.table'],
+          [' ', ''],
+          ['`a`', 'variable'],
+          [' ', ''],
+          ['|', 'delimiter.table'],
+          [' ', ''],
+          [':', 'delimiter.component'],
+          ['badge', 'tag.component'],
+          [' ', ''],
+          ['|', 'delimiter.table'],
+        ],
+        [['Text | not a table', '']],
+      ])
+    })
+
+    it('tokenizes strikethrough', () => {
+      expect(tokenize('Some ~~removed~~ text')[0]).toEqual([['Some ', ''], ['~~removed~~', 'strikethrough'], [' text', '']])
+    })
+
+    it('tokenizes footnote references and definitions', () => {
+      expect(tokenize('Text[^1]\n[^1]: The footnote')).toEqual([
+        [['Text', ''], ['[^1]', 'string.link.footnote']],
+        [['[^1]', 'string.link.footnote'], [':', 'delimiter'], [' The footnote', '']],
+      ])
+    })
+
+    it('tokenizes reference links and definitions', () => {
+      expect(tokenize('[Nuxt][nuxt] and [MDC][]\n[nuxt]: https://nuxt.com "Nuxt"')).toEqual([
+        [
+          ['[', 'string.link'],
+          ['Nuxt', ''],
+          ['][', 'string.link'],
+          ['nuxt', 'string.link.reference'],
+          [']', 'string.link'],
+          [' and ', ''],
+          ['[', 'string.link'],
+          ['MDC', ''],
+          ['][]', 'string.link'],
+        ],
+        [['[nuxt]', 'string.link.reference'], [':', 'delimiter'], [' ', ''], ['https://nuxt.com', 'string.link'], [' "Nuxt"', '']],
+      ])
+    })
+
+    it('tokenizes autolinks', () => {
+      expect(tokenize('See <https://nuxt.com>, <hello@nuxt.com> or https://content.nuxt.com/docs and www.nuxt.com')[0]).toEqual([
+        ['See ', ''],
+        ['<https://nuxt.com>', 'string.link.autolink'],
+        [', ', ''],
+        ['<hello@nuxt.com>', 'string.link.autolink'],
+        [' or ', ''],
+        ['https://content.nuxt.com/docs', 'string.link.autolink'],
+        [' and ', ''],
+        ['www.nuxt.com', 'string.link.autolink'],
+      ])
+    })
+  })
+
+  describe('math', () => {
+    it('tokenizes inline math as embedded LaTeX', () => {
+      expect(tokenize('Energy $E = m_1 * c^2$ and *emphasis*')[0]).toEqual([
+        ['Energy ', ''],
+        ['$', 'delimiter.math'],
+        ['E = m_1 * c^2', 'latex'],
+        ['$', 'delimiter.math'],
+        [' and ', ''],
+        ['*emphasis*', 'emphasis'],
+      ])
+    })
+
+    it('tokenizes block math as embedded LaTeX', () => {
+      expect(tokenize('$$\n\\sum_{i=1}^n *x_i*\n$$\n$$ a_1 $$\n**Text**')).toEqual([
+        [['$$', 'delimiter.math']],
+        [['\\sum_{i=1}^n *x_i*', 'latex']],
+        [['$$', 'delimiter.math']],
+        [['$$', 'delimiter.math'], [' a_1 ', 'latex'], ['$$', 'delimiter.math']],
+        [['**Text**', 'strong']],
+      ])
+    })
+
+    it('does not start block math from a stray `$$` in text', () => {
+      expect(tokenize('Price $$ is weird\n::card\n**Text** and $$x$$\n::')).toEqual([
+        [['Price $$ is weird', '']],
+        [['::', 'delimiter.component'], ['card', 'tag.component']],
+        [['**Text**', 'strong'], [' and ', ''], ['$$', 'delimiter.math'], ['x', 'latex'], ['$$', 'delimiter.math']],
+        [['::', 'delimiter.component']],
+      ])
+    })
+
+    it('does not tokenize escaped or unclosed dollar signs as math', () => {
+      expect(tokenize('Costs \\$5 or $10')[0]).toEqual([['Costs ', ''], ['\\$', 'escape'], ['5 or $10', '']])
+    })
+  })
+
+  describe('code fences', () => {
+    it('tokenizes the language, filename, line highlights and meta of the fence', () => {
+      expect(tokenize('```ts [nuxt.config.ts] {2-4} meta\nexport default {}\n```')).toEqual([
+        [
+          ['```', 'delimiter.codeblock'],
+          ['ts', 'keyword.codeblock.language'],
+          [' ', ''],
+          ['[nuxt.config.ts]', 'string.codeblock.filename'],
+          [' ', ''],
+          ['{2-4}', 'number.codeblock.highlight'],
+          [' ', ''],
+          ['meta', 'annotation.codeblock.meta'],
+        ],
+        [['export default {}', 'typescript']],
+        [['```', 'delimiter.codeblock']],
+      ])
+    })
+
+    it('embeds the code with the language of the alias', () => {
+      expect(tokenize('```sh\nnpm i\n```\n```js twoslash\nconst a = 1\n```\n```vue-html\n<div />\n```\n```mermaid\ngraph TD\n```')
+        .map(tokens => tokens.map(([, type]) => type).join(' ')),
+      ).toEqual([
+        'delimiter.codeblock keyword.codeblock.language',
+        'shell',
+        'delimiter.codeblock',
+        'delimiter.codeblock keyword.codeblock.language  annotation.codeblock.meta',
+        'javascript',
+        'delimiter.codeblock',
+        'delimiter.codeblock keyword.codeblock.language',
+        'html',
+        'delimiter.codeblock',
+        'delimiter.codeblock keyword.codeblock.language',
+        'mermaid',
+        'delimiter.codeblock',
+      ])
+    })
+
+    it('closes a fence with the same character and at least the same length', () => {
+      expect(tokenize('````md\n```ts\n~~~~\n`````\n~~~ [file.txt]\n::card\n~~~\n::card')).toEqual([
+        [['````', 'delimiter.codeblock'], ['md', 'keyword.codeblock.language']],
+        [['```ts', 'markdown']],
+        [['~~~~', 'markdown']],
+        [['`````', 'delimiter.codeblock']],
+        [['~~~', 'delimiter.codeblock'], [' ', ''], ['[file.txt]', 'string.codeblock.filename']],
+        [['::card', 'variable.source']],
+        [['~~~', 'delimiter.codeblock']],
+        [['::', 'delimiter.component'], ['card', 'tag.component']],
+      ])
+    })
+  })
+
+  describe('inline code', () => {
+    it('embeds inline code with the language of its lang attribute', () => {
+      expect(tokenize('Run `npm i`{lang="sh"} or `const a = 1`{.code lang=ts} now')).toEqual([[
+        ['Run ', ''],
+        ['`', 'variable'],
+        ['npm i', 'shell'],
+        ['`', 'variable'],
+        ['{', 'delimiter.attribute'],
+        ['lang', 'attribute.name.prop'],
+        ['=', 'delimiter'],
+        ['"sh"', 'attribute.value.prop'],
+        ['}', 'delimiter.attribute'],
+        [' or ', ''],
+        ['`', 'variable'],
+        ['const a = 1', 'typescript'],
+        ['`', 'variable'],
+        ['{', 'delimiter.attribute'],
+        ['.code', 'attribute.name.class'],
+        [' ', ''],
+        ['lang', 'attribute.name.prop'],
+        ['=', 'delimiter'],
+        ['ts', 'attribute.value.prop'],
+        ['}', 'delimiter.attribute'],
+        [' now', ''],
+      ]])
+    })
+
+    it('keeps inline code without a lang attribute as code', () => {
+      expect(tokenize('`a`{.code} and `b`')).toEqual([[
+        ['`a`', 'variable'],
+        ['{', 'delimiter.attribute'],
+        ['.code', 'attribute.name.class'],
+        ['}', 'delimiter.attribute'],
+        [' and ', ''],
+        ['`b`', 'variable'],
+      ]])
+    })
+  })
+
+  describe('createMdcLanguage', () => {
+    it('creates the exported language and configuration by default', () => {
+      const { conf, language: defaultLanguage } = createMdcLanguage()
+      const content = '---\ntitle: Hello\n---\n::card{:open="true"}\n<b>Hi</b> $x$\n```sh\nls\n```\n::'
+
+      expect(tokenize(content, defaultLanguage)).toEqual(tokenize(content))
+      expect(conf.comments).toEqual({ blockComment: ['<!--', '-->'] })
+    })
+
+    it('disables HTML tags but keeps comments', () => {
+      const { language: withoutHtml } = createMdcLanguage({ html: false })
+
+      expect(tokenize('<div>Text</div>', withoutHtml)).toEqual([[['<div>Text</div>', '']]])
+      expect(tokenize('<!-- note -->', withoutHtml)).toEqual([[['<!--', 'comment'], [' note ', 'comment.content'], ['-->', 'comment']]])
+    })
+
+    it('uses the token postfix', () => {
+      const { language: withPostfix } = createMdcLanguage({ tokenPostfix: '.mdc' })
+
+      expect(tokenize('::card', withPostfix)).toEqual([[['::', 'delimiter.component.mdc'], ['card', 'tag.component.mdc']]])
+    })
+
+    it('uses the code fence language aliases and the YAML language id', () => {
+      const { language: custom } = createMdcLanguage({
+        codeFenceLanguageAliases: { sh: 'bash' },
+        yamlLanguageId: 'mdc-yaml',
+      })
+
+      expect(getLineTypes('```sh\nnpm i\n```\n```ts\nconst a = 1\n```', custom)).toEqual([
+        'delimiter.codeblock', 'bash', 'delimiter.codeblock',
+        'delimiter.codeblock', 'ts', 'delimiter.codeblock',
+      ])
+      expect(getLineTypes('::card\n---\ntitle: Card\n---\n::', custom)).toEqual([
+        'delimiter.component', '', 'mdc-yaml', '', 'delimiter.component',
+      ])
+    })
+
+    it('embeds the frontmatter language', () => {
+      const { language: custom } = createMdcLanguage({ frontmatterLanguageId: 'yaml' })
+
+      expect(getLineTypes('---\ntitle: Hello\n---\n# Heading', custom)).toEqual(['', 'yaml', '', 'keyword'])
+    })
+  })
+})
@@ -0,0 +1,424 @@
+/**
+ * MDC language
+ * Based on official markdown language
+ */
+import type { languages } from 'monaco-editor-core'
+import { codeFenceLanguageAliases, createCodeLanguageCases } from './code-fence-languages'
+import { yamlValueStates } from './yaml-language'
+
+/**
+ * Options for `createMdcLanguage`.
+ */
+export interface MdcLanguageOptions {
+  /** Whether HTML tags, comments and their embedded scripts and styles are tokenized. Defaults to `true`. */
+  html?: boolean
+  /** The postfix appended to every token. Defaults to `.md`. */
+  tokenPostfix?: string
+  /** The code fence languages mapped to Monaco language ids. Defaults to `codeFenceLanguageAliases`. */
+  codeFenceLanguageAliases?: Record<string, string>
+  /** The id of the language embedded in component YAML blocks, e.g. `MDC_YAML_LANGUAGE_ID` for the bundled YAML language. Defaults to `yaml`. */
+  yamlLanguageId?: string
+  /** The id of the language embedded in the frontmatter, e.g. `yaml` for Monaco's YAML language. Defaults to the bundled YAML rules, with keys tokenized as `key.frontmatter`. */
+  frontmatterLanguageId?: string
+}
+
+/**
+ * The Monarch language and language configuration of MDC.
+ */
+export interface MdcLanguage {
+  conf: languages.LanguageConfiguration
+  language: languages.IMonarchLanguage
+}
+
+/**
+ * Creates the MDC Monarch language and language configuration, the exported `language` and `conf` are created with the default options.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { createMdcLanguage } from '@nuxtlabs/monarch-mdc'
+ *
+ * const { conf, language } = createMdcLanguage({
+ *   html: false,
+ *   codeFenceLanguageAliases: { sh: 'shell', vue: 'html' },
+ * })
+ *
+ * monaco.languages.register({ id: 'mdc' })
+ * monaco.languages.setMonarchTokensProvider('mdc', language)
+ * monaco.languages.setLanguageConfiguration('mdc', conf)
+ * ```
+ *
+ * @param {MdcLanguageOptions} options - The language options.
+ * @returns {MdcLanguage} - The Monarch language and the language configuration.
+ */
+export function createMdcLanguage(options: MdcLanguageOptions = {}): MdcLanguage {
+  const {
+    html = true,
+    tokenPostfix = '.md',
+    codeFenceLanguageAliases: aliases = codeFenceLanguageAliases,
+    yamlLanguageId = 'yaml',
+    frontmatterLanguageId,
+  } = options
+
+  const conf: languages.LanguageConfiguration = {
+    comments: {
+      blockComment: ['<!--', '-->'],
+    },
+    brackets: [
+      ['{', '}'],
+      ['[', ']'],
+      ['(', ')'],
+    ],
+    autoClosingPairs: [
+      { open: '{', close: '}' },
+      { open: '[', close: ']' },
+      { open: '(', close: ')' },
+      { open: '<', close: '>', notIn: ['string'] },
+    ],
+    surroundingPairs: [
+      { open: '(', close: ')' },
+      { open: '[', close: ']' },
+      { open: '`', close: '`' },
+    ],
+    folding: {
+      markers: {
+        start: /^\\s*<!--\\s*#?region\\b.*-->/,
+        end: /^\\s*<!--\\s*#?endregion\\b.*-->/,
+      },
+    },
+    onEnterRules: [
+      {
+        // Enter after a block component opening marker, e.g. `::callout`, indents the new line and keeps a line below it
+        // for the closing marker inserted by the on-type formatting provider
+        beforeText: /^\s*:{2,}[\w-].*$/,
+        afterText: /^\s*$/,
+        action: { indentAction: 2 }, // IndentAction.IndentOutdent
+      },
+    ],
+  }
+
+  const language: languages.IMonarchLanguage = {
+    defaultToken: '',
+    tokenPostfix,
+
+    // escape codes
+    control: /[\\`*_[\]{}()#+\-.!$]/,
+    noncontrol: /[^\\`*_[\]{}()#+\-.!$]/,
+    escapes: /\\@control/,
+
+    // escape codes for javascript/CSS strings
+    jsescapes: /\\(?:[btnfr\\"']|[0-3]?[0-7]{1,2})/,
+
+    // non matched elements
+    empty: [
+      'area', 'base', 'basefont', 'br', 'col', 'frame',
+      'hr', 'img', 'input', 'isindex', 'link', 'meta', 'param',
+    ],
+
+    tokenizer: {
+      root: [
+        frontmatterLanguageId
+          ? [/^---$/, { token: '', next: '@frontmatterEmbedded', nextEmbedded: frontmatterLanguageId }]
+          : [/^---$/, { token: '', next: '@frontmatter' }],
+        { include: 'markdown' },
+      ],
+
+      frontmatter: [
+        [/^\s*---\s*$/, { token: '', next: '@markdown', bracket: '@close' }],
+        // keys, including the keys of array items
+        [/^(\s*(?:- +)?)([\w-]+|"[^"]*"|'[^']*')(\s*:)/, ['', 'key.frontmatter', 'delimiter']],
+        // values are tokenized with the states of the bundled YAML language
+        { include: '@yamlValue' },
+      ],
+
+      frontmatterEmbedded: [
+        [/^\s*---\s*$/, { token: '', next: '@markdown', nextEmbedded: '@pop', bracket: '@close' }],
+        [/.*$/, 'variable.source'],
+      ],
+
+      ...yamlValueStates,
+
+      markdown: [
+
+        // headers (with #)
+        [/^(\s{0,3}#+)/, { token: 'keyword', next: '@headercontent' }],
+
+        // headers (with =)
+        [/^\s*(=+|-+)\s*$/, 'keyword'],
+
+        // headers (with ***)
+        [/^\s*((\* ?)+)\s*$/, 'meta.separator'],
+
+        // quote
+        [/^\s*>+/, 'comment'],
+
+        // list (starting with * or number)
+        [/^\s*([*\-+]|\d+\.)\s/, 'keyword'],
+
+        // table delimiter row, e.g. | :--- | ---: |
+        [/^\s*(?:\|\s*)?(?::?-+:?\s*\|\s*)+(?::?-+:?\s*)?$/, 'delimiter.table'],
+        // table row
+        [/^\s*\|/, { token: 'delimiter.table', next: '@table' }],
+
+        // footnote definition, e.g. [^1]: Footnote
+        [/^(\s{0,3})(\[\^[^\]\s]+\])(:)/, ['', 'string.link.footnote', 'delimiter']],
+        // link reference definition, e.g. [label]: https://example.com "Title"
+        [/^(\s{0,3})(\[[^\]]+\])(:)(\s*)(\S+)/, ['', 'string.link.reference', 'delimiter', '', 'string.link']],
+
+        // code block (4 spaces indent)
+        [/^(\t| {4})[^ ].*$/, 'string'],
+
+        // fenced code blocks with a language, e.g. ```ts [nuxt.config.ts] {2-4} meta
+        // the state keeps the language and the fence, e.g. `codeblockInfo.ts.````
+        [/^(\s*)(`{3,}|~{3,})(\s*)([\w/#+-]+)/, ['', 'delimiter.codeblock', '', { token: 'keyword.codeblock.language', next: '@codeblockInfo.$4.$2' }]],
+
+        // fenced code blocks without a language
+        [/^(\s*)(`{3,}|~{3,})/, ['', { token: 'delimiter.codeblock', next: '@codeblockPlainInfo.$2' }]],
+
+        // block components, the state keeps the colons of the opening marker, e.g. `componentWithData.:::`
+        [/^(\s*)(:{2,})([\w-]+)/, ['', 'delimiter.component', { token: 'tag.component', next: '@componentWithData.$2' }]],
+
+        // markup within lines
+        { include: '@linecontent' },
+
+      ],
+
+      table: [
+        [/^/, '', '@pop'], // go back to markdown mode on the next line
+        [/\|/, 'delimiter.table'],
+        { include: '@linecontent' },
+      ],
+
+      componentWithData: [
+        [/\{/, 'delimiter.attribute', '@attributes'],
+        [/^\s*---\s*$/, { token: '', next: '@componentData', nextEmbedded: yamlLanguageId }],
+        // only a closing marker with the same number of colons as the opening marker ends the component
+        [/^\s*(:{2,})\s*$/, {
+          cases: {
+            '$1==$S2': { token: 'delimiter.component', next: '@pop' },
+            '@default': 'delimiter.component',
+          },
+        }],
+        { include: '@component' },
+      ],
+
+      component: [
+        // #slots
+        [/^\s*#[\w-]*\s*$/, 'tag.slot'],
+        { include: '@markdown' },
+      ],
+
+      componentData: [
+        [/^\s*---\s*$/, { token: '', next: '@pop', nextEmbedded: '@pop', bracket: '@close' }],
+        [/.*$/, 'variable.source'],
+      ],
+
+      attributes: [
+        [/\s+/, ''],
+        // #id
+        [/#[\w-]+/, 'attribute.name.id'],
+        // .class
+        [/\.[\w-]+/, 'attribute.name.class'],
+        // :prop="expression" binds the prop to the value highlighted as JavaScript, e.g. :items='["a", "b"]'
+        [/(:[\w-]+)(\s*=\s*)(")/, ['attribute.name.binding', 'delimiter', { token: 'attribute.value.prop', next: '@bindingDoubleQuoted', nextEmbedded: 'javascript' }]],
+        [/(:[\w-]+)(\s*=\s*)(')/, ['attribute.name.binding', 'delimiter', { token: 'attribute.value.prop', next: '@bindingSingleQuoted', nextEmbedded: 'javascript' }]],
+        [/(:[\w-]+)(\s*=\s*)([^\s"'}]+)/, ['attribute.name.binding', 'delimiter', 'attribute.value.prop']],
+        // prop="value", prop='value' and prop=value
+        [/([\w-]+)(\s*=\s*)("[^"]*"|'[^']*'|[^\s"'}]+)/, ['attribute.name.prop', 'delimiter', 'attribute.value.prop']],
+        // boolean props
+        [/:[\w-]+/, 'attribute.name.binding'],
+        [/[\w-]+/, 'attribute.name.prop'],
+        [/\}/, 'delimiter.attribute', '@pop'],
+      ],
+
+      bindingDoubleQuoted: [
+        [/"/, { token: 'attribute.value.prop', next: '@pop', nextEmbedded: '@pop' }],
+      ],
+
+      bindingSingleQuoted: [
+        [/'/, { token: 'attribute.value.prop', next: '@pop', nextEmbedded: '@pop' }],
+      ],
+
+      // the rest of the fence line, the code starts on the next line and is highlighted with the fence language
+      codeblockInfo: [
+        [/^/, { cases: createCodeLanguageCases(aliases, { token: '@rematch', switchTo: '@codeblockEmbedded.$S3' }) }],
+        { include: '@codeblockMeta' },
+      ],
+
+      codeblockPlainInfo: [
+        [/^/, { token: '', switchTo: '@codeblock.$S2' }],
+        { include: '@codeblockMeta' },
+      ],
+
+      codeblockMeta: [
+        // [filename]
+        [/\[[^\]]*\]/, 'string.codeblock.filename'],
+        // {line highlights}
+        [/\{[^}]*\}/, 'number.codeblock.highlight'],
+        [/\s+/, ''],
+        [/[^\s[{]+/, 'annotation.codeblock.meta'],
+      ],
+
+      // a closing fence has the same character as the opening fence and at least its length
+      codeblock: [
+        // `$S2` is replaced with the fence kept in the state by Monarch
+        // eslint-disable-next-line regexp/no-useless-assertions
+        [/^\s*$S2+\s*$/, { token: 'delimiter.codeblock', next: '@pop' }],
+        [/.*$/, 'variable.source'],
+      ],
+
+      codeblockEmbedded: [
+        // eslint-disable-next-line regexp/no-useless-assertions
+        [/^\s*$S2+\s*$/, { token: 'delimiter.codeblock', next: '@pop', nextEmbedded: '@pop' }],
+      ],
+
+      headercontent: [
+        [/^/, 'keyword', '@pop'], // go back to markdown mode if we find a newline
+        [/((?:[^\\#]|@escapes)+)(#*)/, 'keyword'], // header text
+        { include: '@linecontent' },
+      ],
+
+      linecontent: [
+        // escapes
+        [/&\w+;/, 'string.escape'],
+        [/@escapes/, 'escape'],
+
+        // math, the formula is highlighted as LaTeX when the `latex` language is registered
+        // block math only starts with `$$` alone on its line, a stray `$$` in text stays text
+        [/^(\s*)(\$\$)(?=\s*$)/, ['', { token: 'delimiter.math', next: '@mathBlock', nextEmbedded: 'latex' }]],
+        [/\$\$(?=[^$]+\$\$)/, { token: 'delimiter.math', next: '@mathBlock', nextEmbedded: 'latex' }],
+        [/\$(?=[^$]+\$)/, { token: 'delimiter.math', next: '@mathInline', nextEmbedded: 'latex' }],
+
+        // various markup
+        // [/(\b__([\w]+)__)({)/, ['strong', '']],
+        [/\b__([^\\_]|@escapes|_(?!_))+__\b/, 'strong'],
+        [/\*\*([^\\*]|@escapes|\*(?!\*))+\*\*/, 'strong'],
+        [/\b_[^_]+_\b/, 'emphasis'],
+        [/\*([^\\*]|@escapes)+\*/, 'emphasis'],
+        // inline code with a language, e.g. `const a = 1`{lang="ts"}, the state keeps the language, e.g. `inlineCode.ts`
+        [/`(?=[^`]+`\{[^}]*\blang=["']?([\w/#+-]+))/, { token: 'variable', next: '@inlineCode.$1' }],
+        [/`([^\\`]|@escapes)+`/, 'variable'],
+        [/~~([^\\~]|@escapes|~(?!~))+~~/, 'strikethrough'],
+
+        // footnote reference, e.g. [^1]
+        [/\[\^[^\]\s]+\]/, 'string.link.footnote'],
+
+        // links
+        [/^\{[^}]*\}+/, 'string.link'],
+        [/[^*_)\]]\{[^}]*\}+/, 'string.link'],
+        [/(!?\[)((?:[^\]\\]|@escapes)*)(\]\([^)]+\))/, ['string.link', '', 'string.link']],
+        // reference links, e.g. [text][label] and [text][]
+        [/(!?\[)((?:[^\]\\]|@escapes)*)(\]\[)([^\]]*)(\])/, ['string.link', '', 'string.link', 'string.link.reference', 'string.link']],
+
+        // autolinks, e.g. <https://example.com>, <hello@example.com> and bare URLs
+        [/<(?:https?|ftp|mailto):[^\s<>]+>/, 'string.link.autolink'],
+        [/<[\w.+-]+@[\w-]+(?:\.[\w-]+)+>/, 'string.link.autolink'],
+        [/(?:https?:\/\/|www\.)[^\s<>()[\]]+/, 'string.link.autolink'],
+        // [/(!?\[)((?:[^\]\\]|@escapes)*)(\])/, 'string.link'],
+
+        [/\{/, { token: 'delimiter.attribute', next: '@attributes' }],
+
+        // :inline{#attribute}
+        [/(:)([\w-]+)(\{)/, ['delimiter.component', 'tag.component', { token: 'delimiter.attribute', next: '@attributes' }]],
+        // :inline
+        [/(:)([\w-]+)/, ['delimiter.component', 'tag.component']],
+
+        // [span]
+        [/(\[)([^\]]*)(\])(\{)/, ['string.link', '', 'string.link', { token: 'delimiter.attribute', next: '@attributes' }]],
+        [/(\[)([^\]]*)(\])/, ['string.link', '', 'string.link']],
+
+        // or html
+        { include: 'html' },
+      ],
+
+      // the code of inline code is highlighted with its language, the attributes follow the closing backtick
+      inlineCode: [
+        [/[^`]/, { cases: createCodeLanguageCases(aliases, { token: '@rematch', switchTo: '@inlineCodeEmbedded' }) }],
+      ],
+
+      inlineCodeEmbedded: [
+        [/`/, { token: 'variable', next: '@pop', nextEmbedded: '@pop' }],
+      ],
+
+      // $$ block math $$, possibly spanning multiple lines
+      mathBlock: [
+        [/\$\$/, { token: 'delimiter.math', next: '@pop', nextEmbedded: '@pop' }],
+      ],
+
+      // $inline math$
+      mathInline: [
+        [/\$/, { token: 'delimiter.math', next: '@pop', nextEmbedded: '@pop' }],
+      ],
+
+      // Note: it is tempting to rather switch to the real HTML mode instead of building our own here
+      // but currently there is a limitation in Monarch that prevents us from doing it: The opening
+      // '<' would start the HTML mode, however there is no way to jump 1 character back to let the
+      // HTML mode also tokenize the opening angle bracket. Thus, even though we could jump to HTML,
+      // we cannot correctly tokenize it in that mode yet.
+      html: [
+        // html tags, unless disabled with the `html` option
+        ...(html
+          ? [
+            [/<(\w+)\/>/, 'tag'],
+            [/<(\w+)/, {
+              cases: {
+                '@empty': { token: 'tag', next: '@tag.$1' },
+                '@default': { token: 'tag', next: '@tag.$1' },
+              },
+            }],
+            [/<\/(\w+)\s*>/, { token: 'tag' }],
+          ] satisfies languages.IMonarchLanguageRule[]
+          : []),
+
+        [/<!--/, 'comment', '@comment'],
+      ],
+
+      comment: [
+        [/[^<-]+/, 'comment.content'],
+        [/-->/, 'comment', '@pop'],
+        [/<!--/, 'comment.content.invalid'],
+        [/[<-]/, 'comment.content'],
+      ],
+
+      // Almost full HTML tag matching, complete with embedded scripts & styles
+      tag: [
+        [/[ \t\r\n]+/, 'white'],
+        [/(type)(\s*=\s*)(")([^"]+)(")/, ['attribute.name.html', 'delimiter.html', 'string.html',
+          { token: 'string.html', switchTo: '@tag.$S2.$4' },
+          'string.html']],
+        [/(type)(\s*=\s*)(')([^']+)(')/, ['attribute.name.html', 'delimiter.html', 'string.html',
+          { token: 'string.html', switchTo: '@tag.$S2.$4' },
+          'string.html']],
+        [/(\w+)(\s*=\s*)("[^"]*"|'[^']*')/, ['attribute.name.html', 'delimiter.html', 'string.html']],
+        [/\w+/, 'attribute.name.html'],
+        [/\/>/, 'tag', '@pop'],
+        [/>/, {
+          cases: {
+            '$S2==style': { token: 'tag', switchTo: 'embeddedStyle', nextEmbedded: 'text/css' },
+            '$S2==script': {
+              cases: {
+                '$S3': { token: 'tag', switchTo: 'embeddedScript', nextEmbedded: '$S3' },
+                '@default': { token: 'tag', switchTo: 'embeddedScript', nextEmbedded: 'text/javascript' },
+              },
+            },
+            '@default': { token: 'tag', next: '@pop' },
+          },
+        }],
+      ],
+
+      embeddedStyle: [
+        [/[^<]+/, ''],
+        [/<\/style\s*>/, { token: '@rematch', next: '@pop', nextEmbedded: '@pop' }],
+        [/</, ''],
+      ],
+
+      embeddedScript: [
+        [/[^<]+/, ''],
+        [/<\/script\s*>/, { token: '@rematch', next: '@pop', nextEmbedded: '@pop' }],
+        [/</, ''],
+      ],
+    },
+  }
+
+  return { conf, language }
+}
@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import { parseMdcStructure, walkMdcNodes, getNodePath, type MdcComponentNode, type MdcNode } from './parse-mdc-structure'
+import { createDocument } from './test-utils'
+
+/**
+ * Collects all nodes of the given type in document order.
+ */
+function collect<T extends MdcNode['type']>(nodes: MdcNode[], type: T): Extract<MdcNode, { type: T }>[] {
+  const result: Extract<MdcNode, { type: T }>[] = []
+  walkMdcNodes(nodes, (node) => {
+    if (node.type === type) {
+      result.push(node as Extract<MdcNode, { type: T }>)
+    }
+  })
+  return result
+}
+
+describe('parseMdcStructure', () => {
+  describe('block components', () => {
+    it('parses a simple block component', () => {
+      const { children } = parseMdcStructure(createDocument('::card\nContent\n::'))
+
+      expect(children).toHaveLength(1)
+      const card = children[0] as MdcComponentNode
+      expect(card.type).toBe('component')
+      expect(card.name).toBe('card')
+      expect(card.colonCount).toBe(2)
+      expect(card.range).toEqual({ startLine: 0, startColumn: 0, endLine: 2, endColumn: 2 })
+      expect(card.openingRange).toEqual({ startLine: 0, startColumn: 0, endLine: 0, endColumn: 6 })
+      expect(card.closingRange).toEqual({ startLine: 2, startColumn: 0, endLine: 2, endColumn: 2 })
+    })
+
+    it('nests components and matches closing markers by colon count', () => {
+      const { children } = parseMdcStructure(createDocument(':::outer\n  ::inner\n  Content\n  ::\n:::'))
+      const [outer, inner] = collect(children, 'component')
+
+      expect(outer.children).toContain(inner)
+      expect(outer.closingRange?.startLine).toBe(4)
+      expect(inner.indent).toBe(2)
+      expect(inner.openingRange.startColumn).toBe(2)
+      expect(inner.closingRange).toEqual({ startLine: 3, startColumn: 2, endLine: 3, endColumn: 4 })
+    })
+
+    it('ignores closing markers with a different colon count', () => {
+      const { children, unmatchedClosings } = parseMdcStructure(createDocument('::component\n:::\nContent\n::\n::'))
+      const [component] = collect(children, 'component')
+
+      expect(component.closingRange?.startLine).toBe(3)
+      expect(unmatchedClosings).toEqual([
+        { range: { startLine: 1, startColumn: 0, endLine: 1, endColumn: 3 }, colonCount: 3, openComponent: component },
+        { range: { startLine: 4, startColumn: 0, endLine: 4, endColumn: 2 }, colonCount: 2, openComponent: null },
+      ])
+    })
+
+    it('leaves unclosed components open until the end of the document', () => {
+      const { children } = parseMdcStructure(createDocument('::outer\n::inner\n::\nText'))
+      const [outer, inner] = collect(children, 'component')
+
+      expect(inner.closingRange?.startLine).toBe(2)
+      expect(outer.closingRange).toBeNull()
+      expect(outer.range.endLine).toBe(3)
+    })
+  })
+
+  describe('YAML blocks', () => {
+    it('parses the document frontmatter', () => {
+      const { children } = parseMdcStructure(createDocument('---\ntitle: Hello\n---\n::card\n::'))
+
+      expect(children[0]).toEqual({
+        type: 'frontmatter',
+        range: { startLine: 0, startColumn: 0, endLine: 2, endColumn: 3 },
+        closed: true,
+      })
+      expect(collect(children, 'component')).toHaveLength(1)
+    })
+
+    it('parses the document frontmatter with an indented delimiter', () => {
+      const { children } = parseMdcStructure(createDocument('  ---\ntitle: Hello\n---'))
+
+      expect(children[0]).toMatchObject({ type: 'frontmatter', closed: true })
+    })
+
+    it('parses a component YAML block directly after the opening marker', () => {
+      const { children } = parseMdcStructure(createDocument('::card\n---\ntitle: "::"\n---\nContent\n::'))
+      const [card] = collect(children, 'component')
+
+      expect(card.children[0]).toEqual({
+        type: 'componentData',
+        range: { startLine: 1, startColumn: 0, endLine: 3, endColumn: 3 },
+        closed: true,
+      })
+      expect(card.closingRange?.startLine).toBe(5)
+    })
+
+    it('does not treat a thematic break in component content as a YAML block', () => {
+      const { children } = parseMdcStructure(createDocument('::card\nContent\n---\n::'))
+
+      expect(collect(children, 'componentData')).toHaveLength(0)
+      expect(collect(children, 'component')[0].closingRange?.startLine).toBe(3)
+    })
+
+    it('reports unterminated YAML blocks', () => {
+      const { children } = parseMdcStructure(createDocument('::card\n---\ntitle: Hello\n::'))
+      const [data] = collect(children, 'componentData')
+
+      expect(data.closed).toBe(false)
+      expect(data.range.endLine).toBe(3)
+    })
+  })
+
+  describe('code fences', () => {
+    it('ignores markers inside code fences', () => {
+      const { children } = parseMdcStructure(createDocument('::component\n```md\n::fake\n::\n```\n::'))
+      const components = collect(children, 'component')
+      const [fence] = collect(children, 'codeFence')
+
+      expect(components).toHaveLength(1)
+      expect(components[0].closingRange?.startLine).toBe(5)
+      expect(fence.info).toBe('md')
+      expect(fence.range).toEqual({ startLine: 1, startColumn: 0, endLine: 4, endColumn: 3 })
+    })
+
+    it('only closes a fence with the same character and at least the same length', () => {
+      const { children } = parseMdcStructure(createDocument('````md\n```js\n~~~\n```\n````\n::card\n::'))
+      const [fence] = collect(children, 'codeFence')
+
+      expect(fence.fence).toBe('````')
+      expect(fence.range.endLine).toBe(4)
+      expect(collect(children, 'component')).toHaveLength(1)
+    })
+  })
+
+  describe('slots', () => {
+    it('parses slots up to the next slot or closing marker', () => {
+      const { children } = parseMdcStructure(createDocument('::hero\nDefault\n#title\nTitle\n#description\n## Heading\n::'))
+      const [hero] = collect(children, 'component')
+      const [title, description] = collect(children, 'slot')
+
+      expect(hero.children).toEqual([title, description])
+      expect(title.name).toBe('title')
+      expect(title.range).toEqual({ startLine: 2, startColumn: 0, endLine: 3, endColumn: 5 })
+      expect(title.nameRange).toEqual({ startLine: 2, startColumn: 0, endLine: 2, endColumn: 6 })
+      expect(description.range.endLine).toBe(5)
+      expect(description.children[0]).toMatchObject({ type: 'heading', level: 2, text: 'Heading' })
+    })
+
+    it('does not parse slots outside of components', () => {
+      const { children } = parseMdcStructure(createDocument('#title\nText'))
+
+      expect(children).toHaveLength(0)
+    })
+  })
+
+  describe('comments and headings', () => {
+    it('parses single and multi-line HTML comments', () => {
+      const { children } = parseMdcStructure(createDocument('<!-- single -->\n<!--\n::fake\n-->\n::card\n::'))
+      const comments = collect(children, 'comment')
+
+      expect(comments).toHaveLength(2)
+      expect(comments[0].range).toEqual({ startLine: 0, startColumn: 0, endLine: 0, endColumn: 15 })
+      expect(comments[1].range).toEqual({ startLine: 1, startColumn: 0, endLine: 3, endColumn: 3 })
+      expect(collect(children, 'component').map(component => component.name)).toEqual(['card'])
+    })
+
+    it('parses headings with their level and text', () => {
+      const { children } = parseMdcStructure(createDocument('# Title\n### Section ###\n#NotAHeading'))
+      const headings = collect(children, 'heading')
+
+      expect(headings.map(heading => [heading.level, heading.text])).toEqual([[1, 'Title'], [3, 'Section']])
+    })
+  })
+
+  it('handles an empty document', () => {
+    expect(parseMdcStructure(createDocument('')).children).toEqual([])
+  })
+})
+
+describe('getNodePath', () => {
+  it('returns the nodes containing a line from the outermost to the innermost', () => {
+    const { children } = parseMdcStructure(createDocument('::hero\n#title\n  :::card\n  ---\n  title: Hi\n  ---\n  :::\n::\nText'))
+
+    expect(getNodePath(children, 4).map(node => node.type)).toEqual(['component', 'slot', 'component', 'componentData'])
+    expect(getNodePath(children, 6).map(node => node.type)).toEqual(['component', 'slot', 'component'])
+    expect(getNodePath(children, 8)).toEqual([])
+  })
+})
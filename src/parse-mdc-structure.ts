@@ -0,0 +1,401 @@
+/**
+ * The exported `parseMdcStructure` function in this file is the shared, editor-agnostic view of an MDC document.
+ * Folding, bracket matching, formatting, diagnostics and the other providers are built on top of it,
+ * so changes to the tree it returns should be verified against all of them.
+ */
+
+import type { TextDocument, Range } from './find-matching-brackets'
+
+/** The document frontmatter, a YAML block delimited by `---` on the very first line. */
+export interface MdcFrontmatterNode {
+  type: 'frontmatter'
+  /** Range from the opening `---` through the closing `---`. */
+  range: Range
+  /** Whether the closing `---` was found. */
+  closed: boolean
+}
+
+/** A block component, e.g. `::card` ... `::`. */
+export interface MdcComponentNode {
+  type: 'component'
+  /** The component tag name, e.g. `card` for `::card{title="Hello"}`. */
+  name: string
+  /** The number of colons in the opening marker. */
+  colonCount: number
+  /** Leading whitespace of the opening marker line. */
+  indent: number
+  /** Range from the opening marker through the closing marker (or the end of the document if unclosed). */
+  range: Range
+  /** Range of the colons and tag name of the opening marker, e.g. `::card`. */
+  openingRange: Range
+  /** Range of the colons of the closing marker, or `null` if the component is never closed. */
+  closingRange: Range | null
+  /** The component YAML block, slots and nested nodes. */
+  children: MdcNode[]
+}
+
+/** A YAML props block directly following a block component opening marker. */
+export interface MdcComponentDataNode {
+  type: 'componentData'
+  /** Range from the opening `---` through the closing `---`. */
+  range: Range
+  /** Whether the closing `---` was found. */
+  closed: boolean
+}
+
+/** A named slot inside a block component, e.g. `#title`. */
+export interface MdcSlotNode {
+  type: 'slot'
+  /** The slot name, e.g. `title` for `#title`. */
+  name: string
+  /** Range from the slot marker up to the line before the next slot or the component closing marker. */
+  range: Range
+  /** Range of the `#name` marker. */
+  nameRange: Range
+  /** Nested nodes within the slot. */
+  children: MdcNode[]
+}
+
+/** A fenced code block using backticks or tildes. */
+export interface MdcCodeFenceNode {
+  type: 'codeFence'
+  /** The opening fence characters, e.g. ```` ``` ```` or `~~~~`. */
+  fence: string
+  /** Everything following the opening fence, e.g. `ts [nuxt.config.ts] {2-4}`. */
+  info: string
+  /** Range from the opening fence through the closing fence. */
+  range: Range
+  /** Whether the closing fence was found. */
+  closed: boolean
+}
+
+/** An HTML comment starting a line, e.g. `<!-- ... -->`. */
+export interface MdcCommentNode {
+  type: 'comment'
+  /** Range from `<!--` through `-->`. */
+  range: Range
+  /** Whether the closing `-->` was found. */
+  closed: boolean
+}
+
+/** An ATX heading, e.g. `## Title`. */
+export interface MdcHeadingNode {
+  type: 'heading'
+  /** The heading level, from `1` to `6`. */
+  level: number
+  /** The heading text without the leading and closing `#` characters. */
+  text: string
+  /** Range of the heading line. */
+  range: Range
+}
+
+export type MdcNode
+  = MdcFrontmatterNode
+    | MdcComponentNode
+    | MdcComponentDataNode
+    | MdcSlotNode
+    | MdcCodeFenceNode
+    | MdcCommentNode
+    | MdcHeadingNode
+
+/** A block component closing marker that does not close any component. */
+export interface MdcUnmatchedClosing {
+  /** Range of the colons of the closing marker. */
+  range: Range
+  /** The number of colons in the closing marker. */
+  colonCount: number
+  /** The innermost open component when the marker was found, or `null` if no component was open. */
+  openComponent: MdcComponentNode | null
+}
+
+/**
+ * The parsed structure of an MDC document.
+ */
+export interface MdcStructure {
+  /** Top-level nodes in document order. */
+  children: MdcNode[]
+  /** Closing markers that did not match the innermost open component, in document order. */
+  unmatchedClosings: MdcUnmatchedClosing[]
+}
+
+/**
+ * Open block component along with its active slot, if any.
+ */
+interface ComponentFrame {
+  node: MdcComponentNode
+  slot: MdcSlotNode | null
+}
+
+/* Matches block component opening markers like "::name" */
+const COMPONENT_OPENING_REGEX = /^(\s*)(:{2,})([\w-]+)/
+/* Matches block component closing markers like "::" */
+const COMPONENT_CLOSING_REGEX = /^(\s*)(:{2,})\s*$/
+/* Matches code fence opening markers like "```ts" or "~~~" */
+const CODE_FENCE_REGEX = /^(\s*)(`{3,}(?!`)|~{3,}(?!~))(.*)$/
+/* Matches slot markers like "#name" */
+const SLOT_REGEX = /^(\s*)(#[\w-]+)\s*$/
+/* Matches ATX headings like "## Title" */
+const HEADING_REGEX = /^(\s*)(#{1,6})(?:\s(.*))?$/
+/* Matches YAML block delimiters "---" */
+const YAML_DELIMITER_REGEX = /^\s*---\s*$/
+
+/**
+ * Creates a range spanning whole lines, starting at the given column of the start line
+ * and ending at the end of the end line.
+ */
+function createLinesRange(document: TextDocument, startLine: number, startColumn: number, endLine: number): Range {
+  return {
+    startLine,
+    startColumn,
+    endLine,
+    endColumn: document.getLine(endLine).length,
+  }
+}
+
+/**
+ * Parses an MDC document into a tree of block components, slots, component YAML blocks,
+ * document frontmatter, code fences, HTML comments and headings.
+ *
+ * Block components only close on a `::` marker with the same number of colons as the innermost
+ * open component; closing markers with a different colon count are ignored. Nothing inside code
+ * fences, YAML blocks or comments is treated as structure.
+ *
+ * @param {TextDocument} document - The text document to parse.
+ * @returns {MdcStructure} - The document structure with zero-based ranges.
+ */
+export function parseMdcStructure(document: TextDocument): MdcStructure {
+  const structure: MdcStructure = { children: [], unmatchedClosings: [] }
+  const frames: ComponentFrame[] = []
+  const lastLine = Math.max(document.lineCount - 1, 0)
+
+  // The multi-line leaf node currently being read, if any
+  let openBlock: MdcFrontmatterNode | MdcComponentDataNode | MdcCodeFenceNode | MdcCommentNode | null = null
+  // The component whose opening marker is on the previous line, as it may be followed by a YAML block
+  let pendingComponent: MdcComponentNode | null = null
+
+  /** Returns the children array new nodes should be appended to. */
+  const currentChildren = (): MdcNode[] => {
+    const frame = frames[frames.length - 1]
+    if (!frame) {
+      return structure.children
+    }
+    return frame.slot ? frame.slot.children : frame.node.children
+  }
+
+  /** Ends the active slot of a frame on the given line. */
+  const closeSlot = (frame: ComponentFrame, endLine: number) => {
+    if (frame.slot) {
+      frame.slot.range = createLinesRange(document, frame.slot.range.startLine, frame.slot.range.startColumn, Math.max(endLine, frame.slot.range.startLine))
+      frame.slot = null
+    }
+  }
+
+  for (let lineNumber = 0; lineNumber < document.lineCount; lineNumber++) {
+    const line = document.getLine(lineNumber)
+    const trimmed = line.trim()
+    const indent = line.match(/^\s*/)![0].length
+    const componentBeforeLine = pendingComponent
+    pendingComponent = null
+
+    // Read the content of multi-line leaf nodes until their closing delimiter
+    if (openBlock) {
+      let isClosing = false
+      if (openBlock.type === 'frontmatter' || openBlock.type === 'componentData') {
+        isClosing = YAML_DELIMITER_REGEX.test(line)
+      }
+      else if (openBlock.type === 'codeFence') {
+        const fenceChar = openBlock.fence[0]
+        const fenceMatch = trimmed.match(/^(`{3,}|~{3,})$/)
+        isClosing = !!fenceMatch && fenceMatch[1][0] === fenceChar && fenceMatch[1].length >= openBlock.fence.length
+      }
+      else {
+        isClosing = line.includes('-->')
+      }
+
+      if (isClosing) {
+        openBlock.range = createLinesRange(document, openBlock.range.startLine, openBlock.range.startColumn, lineNumber)
+        if (openBlock.type === 'comment') {
+          openBlock.range.endColumn = line.indexOf('-->') + 3
+        }
+        openBlock.closed = true
+        openBlock = null
+      }
+      continue
+    }
+
+    // Document frontmatter
+    if (lineNumber === 0 && YAML_DELIMITER_REGEX.test(line)) {
+      openBlock = { type: 'frontmatter', range: createLinesRange(document, 0, 0, lastLine), closed: false }
+      structure.children.push(openBlock)
+      continue
+    }
+
+    // Component YAML block, directly following the opening marker
+    if (componentBeforeLine && YAML_DELIMITER_REGEX.test(line)) {
+      openBlock = { type: 'componentData', range: createLinesRange(document, lineNumber, indent, lastLine), closed: false }
+      componentBeforeLine.children.push(openBlock)
+      continue
+    }
+
+    // Code fences
+    const fenceMatch = line.match(CODE_FENCE_REGEX)
+    if (fenceMatch && !(fenceMatch[2][0] === '`' && fenceMatch[3].includes('`'))) {
+      openBlock = {
+        type: 'codeFence',
+        fence: fenceMatch[2],
+        info: fenceMatch[3].trim(),
+        range: createLinesRange(document, lineNumber, indent, lastLine),
+        closed: false,
+      }
+      currentChildren().push(openBlock)
+      continue
+    }
+
+    // Block component opening markers
+    const openingMatch = line.match(COMPONENT_OPENING_REGEX)
+    if (openingMatch) {
+      const colonCount = openingMatch[2].length
+      const node: MdcComponentNode = {
+        type: 'component',
+        name: openingMatch[3],
+        colonCount,
+        indent,
+        range: createLinesRange(document, lineNumber, indent, lastLine),
+        openingRange: {
+          startLine: lineNumber,
+          startColumn: indent,
+          endLine: lineNumber,
+          endColumn: indent + colonCount + openingMatch[3].length,
+        },
+        closingRange: null,
+        children: [],
+      }
+      currentChildren().push(node)
+      frames.push({ node, slot: null })
+      pendingComponent = node
+      continue
+    }
+
+    // Block component closing markers
+    const closingMatch = line.match(COMPONENT_CLOSING_REGEX)
+    if (closingMatch) {
+      const frame = frames[frames.length - 1]
+      const colonCount = closingMatch[2].length
+      const range: Range = {
+        startLine: lineNumber,
+        startColumn: indent,
+        endLine: lineNumber,
+        endColumn: indent + colonCount,
+      }
+      if (!frame || frame.node.colonCount !== colonCount) {
+        structure.unmatchedClosings.push({ range, colonCount, openComponent: frame ? frame.node : null })
+      }
+      else {
+        closeSlot(frame, lineNumber - 1)
+        frame.node.range = createLinesRange(document, frame.node.range.startLine, frame.node.range.startColumn, lineNumber)
+        frame.node.closingRange = range
+        frames.pop()
+      }
+      continue
+    }
+
+    // Slots of the innermost component
+    const slotMatch = line.match(SLOT_REGEX)
+    if (slotMatch && frames.length > 0) {
+      const frame = frames[frames.length - 1]
+      closeSlot(frame, lineNumber - 1)
+      frame.slot = {
+        type: 'slot',
+        name: slotMatch[2].slice(1),
+        range: createLinesRange(document, lineNumber, indent, lastLine),
+        nameRange: {
+          startLine: lineNumber,
+          startColumn: indent,
+          endLine: lineNumber,
+          endColumn: indent + slotMatch[2].length,
+        },
+        children: [],
+      }
+      frame.node.children.push(frame.slot)
+      continue
+    }
+
+    // Headings
+    const headingMatch = line.match(HEADING_REGEX)
+    if (headingMatch) {
+      currentChildren().push({
+        type: 'heading',
+        level: headingMatch[2].length,
+        text: (headingMatch[3] || '').trim().replace(/\s+#+$/, '').replace(/^#+$/, ''),
+        range: createLinesRange(document, lineNumber, indent, lineNumber),
+      })
+      continue
+    }
+
+    // HTML comments starting a line
+    if (trimmed.startsWith('<!--')) {
+      const closeIndex = line.indexOf('-->', indent + 4)
+      const node: MdcCommentNode = {
+        type: 'comment',
+        range: createLinesRange(document, lineNumber, indent, closeIndex === -1 ? lastLine : lineNumber),
+        closed: closeIndex !== -1,
+      }
+      if (closeIndex !== -1) {
+        node.range.endColumn = closeIndex + 3
+      }
+      else {
+        openBlock = node
+      }
+      currentChildren().push(node)
+    }
+  }
+
+  // Anything left open extends to the end of the document
+  for (let i = frames.length - 1; i >= 0; i--) {
+    closeSlot(frames[i], lastLine)
+  }
+
+  return structure
+}
+
+/**
+ * Visits every node of an MDC structure in document order, parents before their children.
+ *
+ * @param {MdcNode[]} nodes - The nodes to visit, e.g. `parseMdcStructure(document).children`.
+ * @param {(node: MdcNode, parent: MdcComponentNode | MdcSlotNode | null) => void} visitor - Called for each node along with its parent.
+ */
+export function walkMdcNodes(
+  nodes: MdcNode[],
+  visitor: (node: MdcNode, parent: MdcComponentNode | MdcSlotNode | null) => void,
+  parent: MdcComponentNode | MdcSlotNode | null = null,
+): void {
+  for (const node of nodes) {
+    visitor(node, parent)
+    if (node.type === 'component' || node.type === 'slot') {
+      walkMdcNodes(node.children, visitor, node)
+    }
+  }
+}
+
+/**
+ * Returns the nodes whose range contains the given line, from the outermost to the innermost node.
+ *
+ * @param {MdcNode[]} nodes - The nodes to search, e.g. `parseMdcStructure(document).children`.
+ * @param {number} line - The zero-based line number.
+ * @returns {MdcNode[]} - The path of nodes containing the line, or an empty array if the line is top-level content.
+ */
+export function getNodePath(nodes: MdcNode[], line: number): MdcNode[] {
+  const path: MdcNode[] = []
+  let candidates = nodes
+
+  while (candidates.length > 0) {
+    const node = candidates.find(node => node.range.startLine <= line && line <= node.range.endLine)
+    if (!node) {
+      break
+    }
+    path.push(node)
+    candidates = node.type === 'component' || node.type === 'slot' ? node.children : []
+  }
+
+  return path
+}
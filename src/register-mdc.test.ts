@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+import type * as Monaco from 'monaco-editor-core'
+import type { IDisposable } from 'monaco-editor-core'
+import { registerMdc } from './register-mdc'
+
+/**
+ * Creates a stub of the Monaco namespace recording the registrations and the disposables that are still alive.
+ */
+function createMonaco(languageIds: string[] = []) {
+  const registrations: string[] = []
+  const alive = new Set<IDisposable>()
+  const disposeListeners: (() => void)[] = []
+
+  const createDisposable = (): IDisposable => {
+    const disposable = { dispose: () => alive.delete(disposable) }
+    alive.add(disposable)
+    return disposable
+  }
+  const track = (name: string) => (languageId: string) => {
+    registrations.push(`${name}:${languageId}`)
+    return createDisposable()
+  }
+  const listen = () => createDisposable()
+
+  const lines = ['::card', '::']
+  const model = {
+    uri: { toString: () => 'file:///doc.mdc' },
+    getLanguageId: () => 'mdc',
+    getLineContent: (lineNumber: number) => lines[lineNumber - 1],
+    getLineCount: () => lines.length,
+    isDisposed: () => false,
+    updateOptions: () => {},
+    deltaDecorations: () => [],
+    onDidChangeContent: listen,
+  }
+  const codeEditor = {
+    getModel: () => model,
+    getPosition: () => null,
+    onDidChangeModel: listen,
+    onDidChangeModelLanguage: listen,
+    onDidChangeCursorPosition: listen,
+    onDidDispose: (listener: () => void) => {
+      disposeListeners.push(listener)
+      return createDisposable()
+    },
+  }
+
+  const monaco = {
+    languages: {
+      getLanguages: () => languageIds.map(id => ({ id })),
+      register: ({ id }: { id: string }) => {
+        registrations.push(`register:${id}`)
+        languageIds.push(id)
+      },
+      setMonarchTokensProvider: track('tokens'),
+      setLanguageConfiguration: track('configuration'),
+      registerDocumentFormattingEditProvider: track('formatting'),
+      registerDocumentRangeFormattingEditProvider: track('rangeFormatting'),
+      registerOnTypeFormattingEditProvider: track('onTypeFormatting'),
+      registerFoldingRangeProvider: track('folding'),
+      registerDocumentSymbolProvider: track('documentSymbols'),
+      registerCodeActionProvider: track('codeActions'),
+      registerCompletionItemProvider: track('completion'),
+      registerHoverProvider: track('hover'),
+      SymbolKind: {},
+      CompletionItemKind: {},
+    },
+    editor: {
+      getModels: () => [model],
+      getEditors: () => [codeEditor],
+      setModelMarkers: () => {},
+      onDidCreateModel: listen,
+      onWillDisposeModel: listen,
+      onDidChangeModelLanguage: listen,
+      onDidCreateEditor: listen,
+    },
+  } as unknown as typeof Monaco
+
+  return { monaco, registrations, alive, disposeEditor: () => disposeListeners.forEach(listener => listener()) }
+}
+
+describe('registerMdc', () => {
+  it('registers the language, the providers and the fallback YAML language', () => {
+    const { monaco, registrations } = createMonaco()
+    registerMdc(monaco, { components: [{ name: 'alert' }] })
+
+    expect(registrations).toEqual([
+      'register:mdc-yaml',
+      'tokens:mdc-yaml',
+      'configuration:mdc-yaml',
+      'register:mdc',
+      'tokens:mdc',
+      'configuration:mdc',
+      'formatting:mdc',
+      'rangeFormatting:mdc',
+      'onTypeFormatting:mdc',
+      'folding:mdc',
+      'documentSymbols:mdc',
+      'codeActions:mdc',
+      'completion:mdc',
+      'hover:mdc',
+    ])
+  })
+
+  it('uses the registered yaml language and skips the disabled providers', () => {
+    const { monaco, registrations } = createMonaco(['yaml'])
+    registerMdc(monaco, { languageId: 'markdown-mdc', formatting: false, codeActions: false })
+
+    expect(registrations).toEqual([
+      'register:markdown-mdc',
+      'tokens:markdown-mdc',
+      'configuration:markdown-mdc',
+      'onTypeFormatting:markdown-mdc',
+      'folding:markdown-mdc',
+      'documentSymbols:markdown-mdc',
+    ])
+  })
+
+  it('removes everything it registered on dispose', () => {
+    const { monaco, alive } = createMonaco()
+    const mdc = registerMdc(monaco, { bracketMatcher: { injectStyles: false } })
+
+    expect(alive.size).toBeGreaterThan(0)
+    mdc.dispose()
+    expect(alive.size).toBe(0)
+  })
+
+  it('releases the bracket matcher and listeners of disposed editors', () => {
+    const { monaco, alive, disposeEditor } = createMonaco()
+    const withoutBracketMatcher = createMonaco()
+    registerMdc(monaco, { bracketMatcher: { injectStyles: false } })
+    registerMdc(withoutBracketMatcher.monaco, { bracketMatcher: false })
+
+    disposeEditor()
+    expect(alive.size).toBe(withoutBracketMatcher.alive.size + 1) // The listener of created editors
+  })
+})
@@ -0,0 +1,293 @@
+import type * as Monaco from 'monaco-editor-core'
+import type { editor, IDisposable } from 'monaco-editor-core'
+import { createMdcLanguage, type MdcLanguageOptions } from './language'
+import { yamlLanguage, yamlConf, MDC_YAML_LANGUAGE_ID } from './yaml-language'
+import {
+  createDocumentFormattingEditProvider,
+  createDocumentRangeFormattingEditProvider,
+  createOnTypeFormattingEditProvider,
+  type FormattingProviderOptions,
+} from './formatting-provider'
+import { foldingProvider } from './folding-provider'
+import { registerBracketMatcher, type BracketMatcherOptions } from './bracket-matcher'
+import { registerDiagnosticsProvider, type DiagnosticsProviderOptions } from './diagnostics-provider'
+import { createDocumentSymbolProvider } from './document-symbol-provider'
+import { createCompletionItemProvider } from './completion-provider'
+import { createHoverProvider } from './hover-provider'
+import { createCodeActionProvider } from './code-action-provider'
+import type { MdcComponentRegistry } from './component-registry'
+
+/**
+ * Options for `registerMdc`. Each provider can be disabled with `false`.
+ */
+export interface RegisterMdcOptions {
+  /**
+   * The language id to register.
+   * @default 'mdc'
+   */
+  languageId?: string
+  /**
+   * The options of the Monarch language and language configuration.
+   * Without a `yamlLanguageId`, the bundled YAML language is registered as `mdc-yaml` when the `yaml` language is not registered.
+   */
+  language?: MdcLanguageOptions
+  /**
+   * The tab size of the models using the language.
+   * @default 2
+   */
+  tabSize?: number
+  /**
+   * Whether the models using the language indent with spaces.
+   * @default true
+   */
+  insertSpaces?: boolean
+  /**
+   * The document and range formatting providers, or their options.
+   * @default true
+   */
+  formatting?: boolean | FormattingProviderOptions
+  /**
+   * The on-type formatting provider inserting closing markers and continuing YAML and lists on Enter, or its options.
+   * @default true
+   */
+  onTypeFormatting?: boolean | FormattingProviderOptions
+  /**
+   * The folding range provider.
+   * @default true
+   */
+  folding?: boolean
+  /**
+   * The document symbol provider of the outline and breadcrumbs.
+   * @default true
+   */
+  documentSymbols?: boolean
+  /**
+   * The code action provider moving component props between the attribute list and the YAML block.
+   * @default true
+   */
+  codeActions?: boolean
+  /**
+   * The bracket matcher attached to the editors showing a model of the language, or its options.
+   * @default true
+   */
+  bracketMatcher?: boolean | BracketMatcherOptions
+  /**
+   * The diagnostics provider, or its options.
+   * @default true
+   */
+  diagnostics?: boolean | Omit<DiagnosticsProviderOptions, 'languageId'>
+  /**
+   * The components available to authors. The completion and hover providers are only registered with components.
+   */
+  components?: MdcComponentRegistry
+  /**
+   * The completion item provider, registered when `components` are provided.
+   * @default true
+   */
+  completion?: boolean
+  /**
+   * The hover provider, registered when `components` are provided.
+   * @default true
+   */
+  hover?: boolean
+}
+
+/**
+ * Returns the options of a provider enabled with `true` or its options, or `null` when it is disabled.
+ */
+function getProviderOptions<T extends object>(option: boolean | T | undefined): T | null {
+  if (option === false) {
+    return null
+  }
+  return option === true || option === undefined ? {} as T : option
+}
+
+/**
+ * Returns whether a language id is registered in Monaco.
+ */
+function isLanguageRegistered(monaco: typeof Monaco, languageId: string): boolean {
+  return monaco.languages.getLanguages().some(extension => extension.id === languageId)
+}
+
+/**
+ * Attaches the bracket matcher to the existing and future editors while they show a model of the language.
+ */
+function attachBracketMatchers(monaco: typeof Monaco, languageId: string, options: BracketMatcherOptions): IDisposable {
+  const bracketMatchers = new Map<editor.ICodeEditor, IDisposable>()
+  const editorListeners = new Map<editor.ICodeEditor, IDisposable[]>()
+
+  /**
+   * Attaches the bracket matcher when the editor shows a model of the language, and detaches it otherwise.
+   */
+  function update(codeEditor: editor.ICodeEditor) {
+    const isMdc = codeEditor.getModel()?.getLanguageId() === languageId
+    const bracketMatcher = bracketMatchers.get(codeEditor)
+    if (isMdc && !bracketMatcher) {
+      bracketMatchers.set(codeEditor, registerBracketMatcher(codeEditor, options))
+    }
+    else if (!isMdc && bracketMatcher) {
+      bracketMatcher.dispose()
+      bracketMatchers.delete(codeEditor)
+    }
+  }
+
+  /**
+   * Follows the model and language changes of an editor.
+   */
+  function watch(codeEditor: editor.ICodeEditor) {
+    editorListeners.set(codeEditor, [
+      codeEditor.onDidChangeModel(() => update(codeEditor)),
+      codeEditor.onDidChangeModelLanguage(() => update(codeEditor)),
+      codeEditor.onDidDispose(() => {
+        bracketMatchers.get(codeEditor)?.dispose()
+        bracketMatchers.delete(codeEditor)
+        editorListeners.get(codeEditor)?.forEach(listener => listener.dispose())
+        editorListeners.delete(codeEditor)
+      }),
+    ])
+    update(codeEditor)
+  }
+
+  monaco.editor.getEditors().forEach(watch)
+  const createListener = monaco.editor.onDidCreateEditor(watch)
+
+  return {
+    dispose: () => {
+      createListener.dispose()
+      editorListeners.forEach(listeners => listeners.forEach(listener => listener.dispose()))
+      editorListeners.clear()
+      bracketMatchers.forEach(bracketMatcher => bracketMatcher.dispose())
+      bracketMatchers.clear()
+    },
+  }
+}
+
+/**
+ * Registers the MDC language with its tokenizer, language configuration and providers in a single call.
+ *
+ * The tab size and indentation defaults are applied to the models using the language, and the bracket matcher
+ * is attached to every editor showing one of them, including editors created afterwards.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { registerMdc } from '@nuxtlabs/monarch-mdc'
+ *
+ * const mdc = registerMdc(monaco, {
+ *   tabSize: 2,
+ *   diagnostics: false,
+ *   components: [{ name: 'alert', props: [{ name: 'type', values: ['info', 'warning'] }] }],
+ * })
+ *
+ * const editor = monaco.editor.create(el, { value: '::alert\nHello\n::', language: 'mdc' })
+ *
+ * // Later, e.g. when unmounting the editor
+ * mdc.dispose()
+ * ```
+ *
+ * Monaco cannot unregister a language id, so disposing removes the tokenizer, configuration,
+ * providers and listeners but the `mdc` id stays registered.
+ *
+ * @param monaco - The Monaco namespace
+ * @param options - The language, indentation and provider options
+ * @returns A disposable removing everything that was registered
+ */
+export function registerMdc(monaco: typeof Monaco, options: RegisterMdcOptions = {}): IDisposable {
+  const {
+    languageId = 'mdc',
+    tabSize = 2,
+    insertSpaces = true,
+    components,
+  } = options
+
+  const disposables: IDisposable[] = []
+  const languageOptions: MdcLanguageOptions = { ...options.language }
+
+  // Component YAML blocks are highlighted with the bundled YAML language when Monaco's `yaml` language is not loaded
+  if (!languageOptions.yamlLanguageId && !isLanguageRegistered(monaco, 'yaml')) {
+    if (!isLanguageRegistered(monaco, MDC_YAML_LANGUAGE_ID)) {
+      monaco.languages.register({ id: MDC_YAML_LANGUAGE_ID })
+    }
+    disposables.push(
+      monaco.languages.setMonarchTokensProvider(MDC_YAML_LANGUAGE_ID, yamlLanguage),
+      monaco.languages.setLanguageConfiguration(MDC_YAML_LANGUAGE_ID, yamlConf),
+    )
+    languageOptions.yamlLanguageId = MDC_YAML_LANGUAGE_ID
+  }
+
+  const { conf, language } = createMdcLanguage(languageOptions)
+  if (!isLanguageRegistered(monaco, languageId)) {
+    monaco.languages.register({ id: languageId })
+  }
+
+  disposables.push(
+    monaco.languages.setMonarchTokensProvider(languageId, language),
+    monaco.languages.setLanguageConfiguration(languageId, conf),
+  )
+
+  const formattingOptions = getProviderOptions(options.formatting)
+  if (formattingOptions) {
+    disposables.push(
+      monaco.languages.registerDocumentFormattingEditProvider(languageId, createDocumentFormattingEditProvider(formattingOptions)),
+      monaco.languages.registerDocumentRangeFormattingEditProvider(languageId, createDocumentRangeFormattingEditProvider(formattingOptions)),
+    )
+  }
+
+  const onTypeFormattingOptions = getProviderOptions(options.onTypeFormatting)
+  if (onTypeFormattingOptions) {
+    disposables.push(monaco.languages.registerOnTypeFormattingEditProvider(languageId, createOnTypeFormattingEditProvider(onTypeFormattingOptions)))
+  }
+
+  if (options.folding !== false) {
+    disposables.push(monaco.languages.registerFoldingRangeProvider(languageId, {
+      provideFoldingRanges: model => foldingProvider(model),
+    }))
+  }
+
+  if (options.documentSymbols !== false) {
+    disposables.push(monaco.languages.registerDocumentSymbolProvider(languageId, createDocumentSymbolProvider(monaco)))
+  }
+
+  if (options.codeActions !== false) {
+    disposables.push(monaco.languages.registerCodeActionProvider(languageId, createCodeActionProvider()))
+  }
+
+  if (components && options.completion !== false) {
+    disposables.push(monaco.languages.registerCompletionItemProvider(languageId, createCompletionItemProvider(monaco, { components })))
+  }
+
+  if (components && options.hover !== false) {
+    disposables.push(monaco.languages.registerHoverProvider(languageId, createHoverProvider({ components })))
+  }
+
+  const diagnosticsOptions = getProviderOptions(options.diagnostics)
+  if (diagnosticsOptions) {
+    disposables.push(registerDiagnosticsProvider(monaco, { ...diagnosticsOptions, languageId }))
+  }
+
+  /**
+   * Applies the indentation defaults to a model using the language.
+   */
+  function applyModelOptions(model: editor.ITextModel) {
+    if (model.getLanguageId() === languageId) {
+      model.updateOptions({ tabSize, insertSpaces })
+    }
+  }
+
+  monaco.editor.getModels().forEach(applyModelOptions)
+  disposables.push(
+    monaco.editor.onDidCreateModel(applyModelOptions),
+    monaco.editor.onDidChangeModelLanguage(({ model }) => applyModelOptions(model)),
+  )
+
+  const bracketMatcherOptions = getProviderOptions(options.bracketMatcher)
+  if (bracketMatcherOptions) {
+    disposables.push(attachBracketMatchers(monaco, languageId, bracketMatcherOptions))
+  }
+
+  return {
+    dispose: () => {
+      disposables.forEach(disposable => disposable.dispose())
+    },
+  }
+}
@@ -0,0 +1,26 @@
+import type { TextDocument } from './find-matching-brackets'
+import type { MdcTextEdit } from './formatting-edits'
+
+/**
+ * Creates a simple TextDocument implementation from a string.
+ */
+export function createDocument(content: string): TextDocument {
+  const lines = content.split('\n')
+  return {
+    getLine: (lineNumber: number) => lines[lineNumber] || '',
+    lineCount: lines.length,
+  }
+}
+
+/**
+ * Applies edits to content, last edit first so earlier ranges stay valid.
+ */
+export function applyEdits(content: string, edits: MdcTextEdit[]): string {
+  const lines = content.split('\n')
+  for (const edit of [...edits].reverse()) {
+    const before = lines.slice(0, edit.range.startLine).join('\n') + (edit.range.startLine > 0 ? '\n' : '') + lines[edit.range.startLine].slice(0, edit.range.startColumn)
+    const after = lines[edit.range.endLine].slice(edit.range.endColumn) + (edit.range.endLine < lines.length - 1 ? '\n' : '') + lines.slice(edit.range.endLine + 1).join('\n')
+    lines.splice(0, lines.length, ...(before + edit.newText + after).split('\n'))
+  }
+  return lines.join('\n')
+}
@@ -0,0 +1,65 @@
+import type { editor } from 'monaco-editor-core'
+
+/**
+ * Light theme extending the built-in `vs` theme with colors for the MDC specific tokens.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { mdcLight } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.editor.defineTheme('mdc-light', mdcLight)
+ * monaco.editor.setTheme('mdc-light')
+ * ```
+ */
+export const mdcLight: editor.IStandaloneThemeData = {
+  base: 'vs',
+  inherit: true,
+  rules: [
+    { token: 'delimiter.component', foreground: '6E7781' },
+    { token: 'tag.component', foreground: '0550AE', fontStyle: 'bold' },
+    { token: 'tag.slot', foreground: '8250DF' },
+    { token: 'delimiter.attribute', foreground: '6E7781' },
+    { token: 'attribute.name.id', foreground: '0550AE' },
+    { token: 'attribute.name.class', foreground: '116329' },
+    { token: 'attribute.name.prop', foreground: '953800' },
+    { token: 'attribute.name.binding', foreground: 'CF222E' },
+    { token: 'attribute.value.prop', foreground: '0A3069' },
+    { token: 'key.frontmatter', foreground: '116329' },
+    { token: 'delimiter.math', foreground: '0550AE' },
+    { token: 'strikethrough', fontStyle: 'strikethrough' },
+  ],
+  colors: {},
+}
+
+/**
+ * Dark theme extending the built-in `vs-dark` theme with colors for the MDC specific tokens.
+ *
+ * @example
+ * ```typescript
+ * import * as monaco from 'monaco-editor'
+ * import { mdcDark } from '@nuxtlabs/monarch-mdc'
+ *
+ * monaco.editor.defineTheme('mdc-dark', mdcDark)
+ * monaco.editor.setTheme('mdc-dark')
+ * ```
+ */
+export const mdcDark: editor.IStandaloneThemeData = {
+  base: 'vs-dark',
+  inherit: true,
+  rules: [
+    { token: 'delimiter.component', foreground: '8B949E' },
+    { token: 'tag.component', foreground: '79C0FF', fontStyle: 'bold' },
+    { token: 'tag.slot', foreground: 'D2A8FF' },
+    { token: 'delimiter.attribute', foreground: '8B949E' },
+    { token: 'attribute.name.id', foreground: '79C0FF' },
+    { token: 'attribute.name.class', foreground: '7EE787' },
+    { token: 'attribute.name.prop', foreground: 'FFA657' },
+    { token: 'attribute.name.binding', foreground: 'FF7B72' },
+    { token: 'attribute.value.prop', foreground: 'A5D6FF' },
+    { token: 'key.frontmatter', foreground: '7EE787' },
+    { token: 'delimiter.math', foreground: '79C0FF' },
+    { token: 'strikethrough', fontStyle: 'strikethrough' },
+  ],
+  colors: {},
+}
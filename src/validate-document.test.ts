@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest'
+import { validateDocument } from './validate-document'
+import { createDocument } from './test-utils'
+
+describe('validateDocument', () => {
+  it('returns no diagnostics for a balanced document', () => {
+    const doc = createDocument('---\ntitle: Hello\n---\n:::outer\n::inner\n---\nprop: true\n---\n```ts\n::\n```\n::\n:::')
+
+    expect(validateDocument(doc)).toEqual([])
+  })
+
+  it('reports unclosed components on their opening marker', () => {
+    const doc = createDocument('Text\n  ::card\nContent')
+
+    expect(validateDocument(doc)).toEqual([{
+      code: 'unclosed-component',
+      message: 'Block component "::card" is not closed. Add a closing "::" marker.',
+      severity: 'error',
+      range: { startLine: 1, startColumn: 2, endLine: 1, endColumn: 8 },
+    }])
+  })
+
+  it('reports stray closing markers', () => {
+    const doc = createDocument('::card\n::\n::')
+
+    expect(validateDocument(doc)).toEqual([{
+      code: 'stray-closing-marker',
+      message: 'Closing marker "::" does not close any block component.',
+      severity: 'error',
+      range: { startLine: 2, startColumn: 0, endLine: 2, endColumn: 2 },
+    }])
+  })
+
+  it('reports closing markers with a mismatched colon count', () => {
+    const doc = createDocument(':::card\nContent\n::')
+    const diagnostics = validateDocument(doc)
+
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['unclosed-component', 'colon-count-mismatch'])
+    expect(diagnostics[1]).toEqual({
+      code: 'colon-count-mismatch',
+      message: 'Closing marker "::" does not match the opening ":::card" marker. Expected ":::".',
+      severity: 'error',
+      range: { startLine: 2, startColumn: 0, endLine: 2, endColumn: 2 },
+    })
+  })
+
+  it('reports unterminated code fences on the opening fence line', () => {
+    const doc = createDocument('Text\n~~~~js\nconst a = 1\n~~~')
+
+    expect(validateDocument(doc)).toEqual([{
+      code: 'unterminated-code-fence',
+      message: 'Code fence is not terminated. Add a closing "~~~~" fence.',
+      severity: 'error',
+      range: { startLine: 1, startColumn: 0, endLine: 1, endColumn: 6 },
+    }])
+  })
+
+  it('reports unterminated component YAML blocks', () => {
+    const doc = createDocument('::card\n---\ntitle: Hello\n::')
+    const diagnostics = validateDocument(doc)
+
+    expect(diagnostics.map(diagnostic => diagnostic.code)).toEqual(['unclosed-component', 'unterminated-component-data'])
+    expect(diagnostics[1].range).toEqual({ startLine: 1, startColumn: 0, endLine: 1, endColumn: 3 })
+  })
+
+  it('reports unterminated frontmatter', () => {
+    const doc = createDocument('---\ntitle: Hello')
+
+    expect(validateDocument(doc).map(diagnostic => diagnostic.code)).toEqual(['unterminated-frontmatter'])
+  })
+})
@@ -0,0 +1,125 @@
+import type { TextDocument, Range } from './find-matching-brackets'
+import { parseMdcStructure, walkMdcNodes } from './parse-mdc-structure'
+
+/**
+ * Identifies the kind of problem a diagnostic reports.
+ */
+export type MdcDiagnosticCode
+  = | 'unclosed-component'
+    | 'stray-closing-marker'
+    | 'colon-count-mismatch'
+    | 'unterminated-code-fence'
+    | 'unterminated-component-data'
+    | 'unterminated-frontmatter'
+
+/**
+ * Represents a problem found in an MDC document.
+ */
+export interface MdcDiagnostic {
+  /** The kind of problem. */
+  code: MdcDiagnosticCode
+  /** Human-readable description of the problem. */
+  message: string
+  /** How severe the problem is. */
+  severity: 'error' | 'warning'
+  /** Range the problem applies to. */
+  range: Range
+}
+
+/**
+ * Returns the first line of a range, as unterminated blocks should not highlight the rest of the document.
+ */
+function firstLine(document: TextDocument, range: Range): Range {
+  return {
+    startLine: range.startLine,
+    startColumn: range.startColumn,
+    endLine: range.startLine,
+    endColumn: document.getLine(range.startLine).length,
+  }
+}
+
+/**
+ * Validates the block component, code fence and YAML block structure of an MDC document.
+ *
+ * Reports:
+ * - Block components without a closing marker
+ * - Closing markers without any open block component
+ * - Closing markers whose colon count does not match the innermost open block component
+ * - Code fences, component YAML blocks and frontmatter that are never terminated
+ *
+ * @param {TextDocument} document - The text document to validate.
+ * @returns {MdcDiagnostic[]} - The diagnostics, sorted by their position in the document.
+ */
+export function validateDocument(document: TextDocument): MdcDiagnostic[] {
+  const diagnostics: MdcDiagnostic[] = []
+  const structure = parseMdcStructure(document)
+
+  walkMdcNodes(structure.children, (node) => {
+    switch (node.type) {
+      case 'component':
+        if (!node.closingRange) {
+          const marker = ':'.repeat(node.colonCount)
+          diagnostics.push({
+            code: 'unclosed-component',
+            message: `Block component "${marker}${node.name}" is not closed. Add a closing "${marker}" marker.`,
+            severity: 'error',
+            range: node.openingRange,
+          })
+        }
+        break
+      case 'codeFence':
+        if (!node.closed) {
+          diagnostics.push({
+            code: 'unterminated-code-fence',
+            message: `Code fence is not terminated. Add a closing "${node.fence}" fence.`,
+            severity: 'error',
+            range: firstLine(document, node.range),
+          })
+        }
+        break
+      case 'componentData':
+        if (!node.closed) {
+          diagnostics.push({
+            code: 'unterminated-component-data',
+            message: 'Component YAML block is not terminated. Add a closing "---" line.',
+            severity: 'error',
+            range: firstLine(document, node.range),
+          })
+        }
+        break
+      case 'frontmatter':
+        if (!node.closed) {
+          diagnostics.push({
+            code: 'unterminated-frontmatter',
+            message: 'Frontmatter is not terminated. Add a closing "---" line.',
+            severity: 'error',
+            range: firstLine(document, node.range),
+          })
+        }
+        break
+    }
+  })
+
+  for (const closing of structure.unmatchedClosings) {
+    const marker = ':'.repeat(closing.colonCount)
+    if (closing.openComponent) {
+      const expected = ':'.repeat(closing.openComponent.colonCount)
+      diagnostics.push({
+        code: 'colon-count-mismatch',
+        message: `Closing marker "${marker}" does not match the opening "${expected}${closing.openComponent.name}" marker. Expected "${expected}".`,
+        severity: 'error',
+        range: closing.range,
+      })
+    }
+    else {
+      diagnostics.push({
+        code: 'stray-closing-marker',
+        message: `Closing marker "${marker}" does not close any block component.`,
+        severity: 'error',
+        range: closing.range,
+      })
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.range.startLine - b.range.startLine || a.range.startColumn - b.range.startColumn)
+}
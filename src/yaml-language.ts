@@ -0,0 +1,100 @@
+/**
+ * YAML language
+ * Fallback for the component YAML blocks when the `yaml` language of Monaco is not available, e.g. with `monaco-editor-core`.
+ * The frontmatter of the MDC language is tokenized with the same value states.
+ */
+import type { languages } from 'monaco-editor-core'
+
+/**
+ * The id `registerMdc` registers the bundled YAML language with, when the `yaml` language is not registered.
+ */
+export const MDC_YAML_LANGUAGE_ID = 'mdc-yaml'
+
+/**
+ * The tokenizer states of YAML values, shared by the YAML language and the frontmatter of the MDC language.
+ * The states are prefixed with `yaml` so they can be merged into the MDC tokenizer.
+ */
+export const yamlValueStates: Record<string, languages.IMonarchLanguageRule[]> = {
+  yamlValue: [
+    [/\s+/, ''],
+    [/#.*$/, 'comment'],
+
+    // array items, e.g. `- item`
+    [/-(?=\s|$)/, 'operators'],
+
+    // block scalars, e.g. `description: |`, the content starts on the next line
+    [/[|>][-+]?\d*(?=\s*(?:#.*)?$)/, { token: 'operators', next: '@yamlBlockScalar' }],
+
+    // quoted strings
+    [/"(?:[^"\\]|\\.)*"/, 'string'],
+    [/'(?:[^']|'')*'/, 'string'],
+
+    // flow collections, e.g. `[a, b]` and `{ a: 1 }`
+    [/[[\]]/, 'delimiter.square'],
+    [/[{}]/, 'delimiter.bracket'],
+    [/,/, 'delimiter.comma'],
+
+    // booleans, null and numbers, when they are the whole value
+    [/(?:true|false|null|~)(?=\s*(?:[,\]}#]|$))/, 'keyword'],
+    [/[-+]?(?:\d[\d_]*(?:\.\d*)?(?:e[-+]?\d+)?|0x[\da-f]+|\.inf|\.nan)(?=\s*(?:[,\]}#]|$))/i, 'number'],
+
+    // plain strings
+    [/[^\s,[\]{}#]+(?:[^\S\n]+[^\s,[\]{}#]+)*/, 'string'],
+  ],
+
+  // the first line sets the indentation of the block scalar content, e.g. `yamlBlockScalarContent.  `
+  yamlBlockScalar: [
+    [/^\s+$/, ''],
+    [/^(\s+)\S.*$/, { token: 'string', switchTo: '@yamlBlockScalarContent.$1' }],
+    // empty block scalar
+    [/^/, { token: '@rematch', next: '@pop' }],
+  ],
+
+  // the content ends on the first line with less indentation
+  yamlBlockScalarContent: [
+    [/^\s+$/, ''],
+    [/^(\s*)\S.*$/, {
+      cases: {
+        '$1~$S2\\s*': 'string',
+        '@default': { token: '@rematch', next: '@pop' },
+      },
+    }],
+  ],
+}
+
+export const yamlConf: languages.LanguageConfiguration = {
+  comments: {
+    lineComment: '#',
+  },
+  brackets: [
+    ['{', '}'],
+    ['[', ']'],
+  ],
+  autoClosingPairs: [
+    { open: '{', close: '}' },
+    { open: '[', close: ']' },
+    { open: '"', close: '"' },
+    { open: '\'', close: '\'' },
+  ],
+  surroundingPairs: [
+    { open: '{', close: '}' },
+    { open: '[', close: ']' },
+    { open: '"', close: '"' },
+    { open: '\'', close: '\'' },
+  ],
+}
+
+export const yamlLanguage: languages.IMonarchLanguage = {
+  defaultToken: '',
+  tokenPostfix: '.yaml',
+
+  tokenizer: {
+    root: [
+      // keys, including the keys of array items, e.g. `- name: value`
+      [/^(\s*(?:- +)?)([\w-]+|"[^"]*"|'[^']*')(\s*)(:)(?=\s|$)/, ['', 'type', '', 'operators']],
+      { include: '@yamlValue' },
+    ],
+
+    ...yamlValueStates,
+  },
+}
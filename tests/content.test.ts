@@ -25,6 +25,9 @@ describe(`MDC Formatter`, async () => {
       // Expect the formatted `input` content to be the same as the expected `output` content
       expect(formatted).toBe(expected)
 
+      // Expect formatting the `output` content again to leave it unchanged
+      expect(mdcFormatter(formatted, { tabSize: 2 })).toBe(formatted)
+
       // We explicitly skip the MDC Lint check for test #33 so that we can test YAML block comments beginning with `#` character
       if (input === '33.handles yaml comments in nested component props.md') {
         return
@@ -0,0 +1,68 @@
+import { bench, describe, expect } from 'vitest'
+import { formatter as mdcFormatter } from '../src/formatter'
+
+/**
+ * Generates an unformatted MDC document with nested block components, YAML props including arrays
+ * and multiline strings, lists, code blocks and slots, repeated until it has at least `lineCount` lines.
+ */
+function generateDocument(lineCount: number): string {
+  const section = [
+    '::page-section',
+    '---',
+    'title: "Section"',
+    'image:',
+    '    url: "https://example.com/image.png"',
+    '    alt: "Alt text"',
+    'attributes:',
+    '- env:',
+    '  - "dev"',
+    '  - "prod"',
+    'styles: |',
+    '  .container {',
+    '    color: red;',
+    '  }',
+    '---',
+    '#title',
+    'Section title',
+    '',
+    ':::container',
+    '   - List item',
+    '     - Child list item',
+    '   - List item',
+    '',
+    '```ts',
+    'function test() {',
+    '  return true',
+    '}',
+    '```',
+    '::::alert{type="info"}',
+    'This is the alert message with an :icon{name="mdi:github"} inline component.',
+    '::::',
+    ':::',
+    '::',
+    '',
+  ]
+  const lines: string[] = []
+  while (lines.length < lineCount) {
+    lines.push(...section)
+  }
+  return lines.join('\n')
+}
+
+describe('MDC Formatter', () => {
+  for (const lineCount of [1_000, 10_000, 50_000]) {
+    const content = generateDocument(lineCount)
+    const formatted = mdcFormatter(content, { tabSize: 2 })
+
+    // The formatter runs a single pass, so formatting its output again must leave it unchanged
+    expect(mdcFormatter(formatted, { tabSize: 2 })).toBe(formatted)
+
+    bench(`formats a ${lineCount.toLocaleString('en-US')} line document`, () => {
+      mdcFormatter(content, { tabSize: 2 })
+    })
+
+    bench(`formats a formatted ${lineCount.toLocaleString('en-US')} line document`, () => {
+      mdcFormatter(formatted, { tabSize: 2 })
+    })
+  }
+})